@@ -9,6 +9,10 @@ import ActionsPage from "./pages/ActionsPage";
 import TestFSMPage from "./pages/TestFSMPage";
 import GenerateStatesPage from "./pages/GenerateStatesPage";
 import GenerateExcelPage from "./pages/GenerateExcelPage";
+import ComparePage from "./pages/ComparePage";
+import LanguagePage from "./pages/LanguagePage";
+import CoveragePage from "./pages/CoveragePage";
+import VerifyPage from "./pages/VerifyPage";
 import PlaceholderPage from "./pages/PlaceholderPage";
 import NotFound from "./pages/NotFound";
 
@@ -27,6 +31,10 @@ const App = () => (
             <Route path="/test-fsm" element={<TestFSMPage />} />
             <Route path="/generate-states" element={<GenerateStatesPage />} />
             <Route path="/generate-excel" element={<GenerateExcelPage />} />
+            <Route path="/compare" element={<ComparePage />} />
+            <Route path="/language" element={<LanguagePage />} />
+            <Route path="/coverage" element={<CoveragePage />} />
+            <Route path="/verify" element={<VerifyPage />} />
             <Route path="/placeholder/:feature" element={<PlaceholderPage />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
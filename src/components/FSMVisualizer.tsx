@@ -1,12 +1,14 @@
-import { FSMData } from '@/lib/fsm-parser';
+import { FSMData, isAcceptState, stateLabel } from '@/lib/fsm-parser';
 
 interface FSMVisualizerProps {
   fsm: FSMData;
   currentState?: number;
+  activeStates?: number[]; // NFA simulation: every state in the active set is highlighted
+  flaggedStates?: number[]; // structural problems (unreachable, can never accept) get a dashed warning ring
   highlightedTransition?: { from: number; symbol: string };
 }
 
-export default function FSMVisualizer({ fsm, currentState, highlightedTransition }: FSMVisualizerProps) {
+export default function FSMVisualizer({ fsm, currentState, activeStates, flaggedStates, highlightedTransition }: FSMVisualizerProps) {
   const width = 600;
   const height = 400;
   const centerX = width / 2;
@@ -59,22 +61,28 @@ export default function FSMVisualizer({ fsm, currentState, highlightedTransition
     }
   }
 
+  const isActive = (stateNum: number) => currentState === stateNum || (activeStates?.includes(stateNum) ?? false);
+
   const getStateColor = (stateNum: number) => {
-    if (currentState === stateNum) {
+    if (isActive(stateNum)) {
       return 'hsl(var(--state-current))';
     }
-    if (stateNum === fsm.startstate && stateNum === fsm.acceptstate) {
+    if (stateNum === fsm.startstate && isAcceptState(fsm, stateNum)) {
       return 'hsl(var(--state-accept))';
     }
     if (stateNum === fsm.startstate) {
       return 'hsl(var(--state-start))';
     }
-    if (stateNum === fsm.acceptstate) {
+    if (isAcceptState(fsm, stateNum)) {
       return 'hsl(var(--state-accept))';
     }
     return 'hsl(var(--state-default))';
   };
 
+  // Mealy outputs are shown after the symbol: 1/0
+  const formatSymbols = (from: number, symbols: string[]) =>
+    symbols.map(s => (fsm.transitionOutputs[from]?.[s] !== undefined ? `${s}/${fsm.transitionOutputs[from][s]}` : s)).join(', ');
+
   const isTransitionHighlighted = (from: number, symbol: string) => {
     return highlightedTransition?.from === from && highlightedTransition?.symbol === symbol;
   };
@@ -107,7 +115,7 @@ export default function FSMVisualizer({ fsm, currentState, highlightedTransition
           textAnchor="middle"
           className="fill-foreground font-mono text-sm font-medium"
         >
-          {symbols.join(', ')}
+          {formatSymbols(state, symbols)}
         </text>
       </g>
     );
@@ -171,7 +179,7 @@ export default function FSMVisualizer({ fsm, currentState, highlightedTransition
           textAnchor="middle"
           className="fill-primary font-mono text-sm font-bold"
         >
-          {symbols.join(', ')}
+          {formatSymbols(from, symbols)}
         </text>
       </g>
     );
@@ -213,8 +221,8 @@ export default function FSMVisualizer({ fsm, currentState, highlightedTransition
         renderTransition(from, to, symbols)
       )}
 
-      {/* Start arrow */}
-      {fsm.startstate && (
+      {/* Start arrow (state 0 is a valid start state in 0-based machines) */}
+      {statePositions[fsm.startstate] && (
         <g>
           <line
             x1={statePositions[fsm.startstate].x - stateRadius - 40}
@@ -244,8 +252,9 @@ export default function FSMVisualizer({ fsm, currentState, highlightedTransition
       {/* Render states */}
       {Object.entries(statePositions).map(([stateStr, pos]) => {
         const stateNum = parseInt(stateStr, 10);
-        const isAccept = stateNum === fsm.acceptstate;
-        const isCurrent = currentState === stateNum;
+        const isAccept = isAcceptState(fsm, stateNum);
+        const isCurrent = isActive(stateNum);
+        const label = stateLabel(fsm, stateNum);
 
         return (
           <g key={stateNum}>
@@ -260,6 +269,18 @@ export default function FSMVisualizer({ fsm, currentState, highlightedTransition
                 strokeWidth={2}
               />
             )}
+            {/* Dashed ring for flagged states */}
+            {flaggedStates?.includes(stateNum) && (
+              <circle
+                cx={pos.x}
+                cy={pos.y}
+                r={stateRadius + (isAccept ? 10 : 5)}
+                fill="none"
+                stroke="hsl(var(--warning))"
+                strokeWidth={2}
+                strokeDasharray="4 3"
+              />
+            )}
             {/* Main state circle */}
             <circle
               cx={pos.x}
@@ -275,10 +296,21 @@ export default function FSMVisualizer({ fsm, currentState, highlightedTransition
               x={pos.x}
               y={pos.y + 5}
               textAnchor="middle"
-              className="fill-foreground font-mono text-base font-bold"
+              className={`fill-foreground font-mono font-bold ${label.length > 4 ? 'text-xs' : 'text-base'}`}
             >
-              q{stateNum}
+              {label}
             </text>
+            {/* Moore output */}
+            {fsm.stateOutputs[stateNum] !== undefined && (
+              <text
+                x={pos.x}
+                y={pos.y + 20}
+                textAnchor="middle"
+                className="fill-muted-foreground font-mono text-xs"
+              >
+                /{fsm.stateOutputs[stateNum]}
+              </text>
+            )}
           </g>
         );
       })}
@@ -291,6 +323,12 @@ export default function FSMVisualizer({ fsm, currentState, highlightedTransition
         <text x="72" y="12" className="fill-muted-foreground text-xs">Accept</text>
         <circle cx="120" cy="8" r="6" fill="hsl(var(--state-current))" />
         <text x="132" y="12" className="fill-muted-foreground text-xs">Current</text>
+        {flaggedStates && flaggedStates.length > 0 && (
+          <>
+            <circle cx="188" cy="8" r="6" fill="none" stroke="hsl(var(--warning))" strokeWidth={2} strokeDasharray="3 2" />
+            <text x="200" y="12" className="fill-muted-foreground text-xs">Unreachable / dead</text>
+          </>
+        )}
       </g>
     </svg>
   );
@@ -0,0 +1,16 @@
+/**
+ * Download - saves generated text (machine files, batch results) from the browser
+ */
+
+/**
+ * Download text content as a file through a temporary object URL
+ */
+export function downloadTextFile(content: string, filename: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -4,8 +4,10 @@
  */
 
 import * as XLSX from 'xlsx';
-import { FSMData, runFSM } from './fsm-parser';
-import { generateFSMSteps } from './fsm-step-generator';
+import { FSMData, runFSM, hasOutputs, METADATA_FIELDS, formatAcceptStates, stateLabel } from './fsm-parser';
+import { generateFSMSteps, StepResult, StateStep } from './fsm-step-generator';
+import { tileName, TileNamingOptions } from './tile-naming';
+import { tokenizeInput } from './fsm-tokenizer';
 
 export interface ExperimentInput {
   name: string;
@@ -15,12 +17,20 @@ export interface ExperimentInput {
   fluorophore: string;
 }
 
+// Inputs handed to the experiment sheet page by another page, e.g. a coverage suite
+export interface ExperimentPrefill {
+  inputs: string[];
+  namePrefix?: string; // experiments are named <prefix>1, <prefix>2, ...
+}
+
 export interface ExcelGenerationParams {
   experiments: ExperimentInput[];
   stockConcentration: number;
   targetConcentration: number;
   totalVolume: number;
   reportEveryPosition: boolean;
+  pruneUnreachableTiles?: boolean; // skip competing tiles for states no input can occupy at that position
+  tileNaming?: TileNamingOptions; // position labels and separators, A-H style by default
 }
 
 // Reagent configurations with default stock concentrations
@@ -40,45 +50,65 @@ const SCAFFOLD_REAGENTS: ReagentConfig[] = [
 ];
 
 /**
- * Run FSM and return ACCEPT or REJECT plus the final state
+ * Run FSM and return ACCEPT or REJECT plus the final state and any transducer output.
+ * `error` is set when the input does not split into symbols of the alphabet, or when
+ * a partial machine falls into its implicit dead state; there is no final state then.
  */
-export function evaluateFSM(fsmData: FSMData, input: string): { result: 'ACCEPT' | 'REJECT'; finalState: number } {
+export function evaluateFSM(
+  fsmData: FSMData,
+  input: string
+): { result: 'ACCEPT' | 'REJECT'; finalState: number | null; output: string; error?: string } {
   const runResult = runFSM(fsmData, input);
   return {
     result: runResult.accepted ? 'ACCEPT' : 'REJECT',
-    finalState: runResult.endState,
+    finalState: runResult.error ? null : runResult.endState,
+    output: runResult.output,
+    error: runResult.error,
   };
 }
 
+/**
+ * Number of symbols (not characters) in an experiment input
+ */
+function inputLength(fsmData: FSMData, input: string): number {
+  return tokenizeInput(input, fsmData.symbols).symbols.length;
+}
+
+export interface CompetingTileOptions extends TileNamingOptions {
+  prune?: boolean; // only states reachable at each position
+}
+
+/**
+ * Tile name for one step. States keep the machine's own numbering, so 0-based machines get tiles like 0B1.
+ * Anchor: <posLabel><toState>, Middle: <fromState><posLabel><toState>, Final: <fromState><posLabel>
+ */
+function stepTileName(step: StepResult, state: StateStep, isFinal: boolean, naming: TileNamingOptions): string {
+  if (step.isAnchor) return tileName(step.position, null, state.nextState, naming);
+  if (isFinal) return tileName(step.position, state.currentState, null, naming);
+  return tileName(step.position, state.currentState, state.nextState, naming);
+}
+
 /**
  * Generate competing tiles from FSM steps for a specific input.
- * Uses the step generator logic: anchor has one tile, other positions show all competing states.
- * Format: A<toState> for anchor, <fromState><posLabel><toState> for middle, <fromState><posLabel> for final.
+ * Uses the step generator logic: anchor has one tile, other positions show all competing states
+ * (or, with prune, only the states reachable at that position).
  */
-function generateCompetingTilesFromSteps(fsmData: FSMData, input: string): string[][] {
-  const positionLabels = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
-  const steps = generateFSMSteps(fsmData, input);
+export function generateCompetingTilesFromSteps(
+  fsmData: FSMData,
+  input: string,
+  options: CompetingTileOptions = {}
+): string[][] {
+  const steps = generateFSMSteps(fsmData, input, { prune: options.prune });
   const result: string[][] = [];
 
   for (const step of steps.steps) {
-    const posLabel = positionLabels[step.position];
     const isFinal = step.position === steps.steps.length - 1;
     const tiles: string[] = [];
 
     for (const state of step.states) {
-      if (step.isAnchor) {
-        // Anchor: A<nextState>
-        if (state.nextState !== null) {
-          tiles.push(`${posLabel}${state.nextState}`);
-        }
-      } else if (isFinal) {
-        // Final position: <fromState><posLabel>
-        tiles.push(`${state.currentState}${posLabel}`);
-      } else {
-        // Middle: <fromState><posLabel><toState>
-        if (state.nextState !== null) {
-          tiles.push(`${state.currentState}${posLabel}${state.nextState}`);
-        }
+      // Only the final position binds without a next state
+      if ((isFinal && !step.isAnchor) || state.nextState !== null) {
+        tiles.push(stepTileName(step, state, isFinal, options));
       }
     }
 
@@ -89,40 +119,21 @@ function generateCompetingTilesFromSteps(fsmData: FSMData, input: string): strin
 }
 
 /**
- * Get the correct tiles for a specific FSM input (control column)
- * Anchor: A<toState>, Middle: <fromState><posLabel><toState>, Final: <fromState><posLabel>
+ * Get the correct tiles for a specific FSM input (control column): the competing
+ * tile of the state actually occupied at each position, named the same way
  */
-function getCorrectTiles(fsmData: FSMData, input: string): string[] {
-  const positionLabels = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+export function getCorrectTiles(fsmData: FSMData, input: string, naming: TileNamingOptions = {}): string[] {
+  const steps = generateFSMSteps(fsmData, input);
   const tiles: string[] = [];
 
-  let currentState = fsmData.startstate;
-
-  for (let pos = 0; pos < input.length; pos++) {
-    const symbol = input[pos];
-    const transitions = fsmData.transitions[currentState];
-    if (transitions) {
-      for (const [transSymbol, nextState] of transitions) {
-        if (transSymbol === symbol) {
-          const nextStateNum = parseInt(nextState, 10);
-
-          if (pos === 0) {
-            // Anchor: A<toState>
-            tiles.push(`A${nextStateNum}`);
-          } else {
-            const posLabel = positionLabels[pos];
-            if (pos === input.length - 1) {
-              tiles.push(`${currentState}${posLabel}`);
-            } else {
-              tiles.push(`${currentState}${posLabel}${nextStateNum}`);
-            }
-          }
+  let currentState: number | null = fsmData.startstate;
+  for (const step of steps.steps) {
+    const state = step.states.find(s => s.currentState === currentState);
+    if (!state || state.nextState === null) break;
 
-          currentState = nextStateNum;
-          break;
-        }
-      }
-    }
+    const isFinal = step.position === steps.steps.length - 1;
+    tiles.push(stepTileName(step, state, isFinal, naming));
+    currentState = state.nextState;
   }
 
   return tiles;
@@ -169,7 +180,9 @@ function applyCellStyle(ws: XLSX.WorkSheet, cellRef: string, style: 'green' | 'o
 }
 
 /**
- * Generate the Excel workbook with two sheets
+ * Generate the Excel workbook with two sheets.
+ * Pass the machine the experiments were evaluated on: for a partial machine with an explicit
+ * dead state that is addSinkState(fsmData), so the dead state gets competing tiles.
  */
 export function generateExcelWorkbook(
   params: ExcelGenerationParams,
@@ -178,7 +191,7 @@ export function generateExcelWorkbook(
   const wb = XLSX.utils.book_new();
 
   // Generate Sheet 1: qpcr_layout
-  const sheet1 = generateExperimentLayoutSheet(params);
+  const sheet1 = generateExperimentLayoutSheet(params, fsmData);
   XLSX.utils.book_append_sheet(wb, sheet1, 'qpcr_layout');
 
   // Generate Sheet 2: Reagents_and_Tiles
@@ -186,24 +199,48 @@ export function generateExcelWorkbook(
   XLSX.utils.book_append_sheet(wb, sheet2, 'Reagents_and_Tiles');
 
   // Generate Metadata sheet
-  const metadataSheet = generateMetadataSheet(params);
+  const metadataSheet = generateMetadataSheet(params, fsmData);
   XLSX.utils.book_append_sheet(wb, metadataSheet, '_Metadata');
 
   return wb;
 }
 
+/**
+ * Expected output at each input position of a transducer run, '' where nothing is emitted
+ */
+function getPositionOutputs(fsmData: FSMData, input: string): string[] {
+  return runFSM(fsmData, input).path.slice(1).map(step => step.output ?? '');
+}
+
 /**
  * Generate Experiment_Layout sheet
+ * For transducers each row is also labeled with the expected output at its bit position
  */
-function generateExperimentLayoutSheet(params: ExcelGenerationParams): XLSX.WorkSheet {
+function generateExperimentLayoutSheet(params: ExcelGenerationParams, fsmData: FSMData): XLSX.WorkSheet {
   const { experiments } = params;
   const data: (string | number | null)[][] = [];
+  const outputsPerExp = hasOutputs(fsmData)
+    ? experiments.map(exp => getPositionOutputs(fsmData, exp.fsmInput))
+    : null;
+
+  // Row label: "<name>; Bit n; Out 1; Ans 3", without Out for machines that have no outputs
+  const rowLabel = (expIdx: number, bit: number): string => {
+    const exp = experiments[expIdx];
+    const label = params.reportEveryPosition ? `Bit ${bit}` : `Position ${exp.finalState}`;
+    if (!outputsPerExp) {
+      return `${exp.name}; ${label}; Ans ${exp.finalState}`;
+    }
+    // Report-last-only rows use each experiment's own last position
+    const position = params.reportEveryPosition ? bit : inputLength(fsmData, exp.fsmInput) - 1;
+    const output = outputsPerExp[expIdx][position];
+    return `${exp.name}; ${label}; Out ${output === undefined || output === '' ? '-' : output}; Ans ${exp.finalState}`;
+  };
 
   // Columns: 2 for Buffer/5RF ATTO, then 2 per experiment (repeated)
   const numCols = 2 + experiments.length * 2;
 
   // Determine max input length for row count
-  const maxInputLen = Math.max(...experiments.map(e => e.fsmInput.length), 1);
+  const maxInputLen = Math.max(...experiments.map(e => inputLength(fsmData, e.fsmInput)), 1);
 
   // Row 1: Column headers
   const headerRow: (string | null)[] = [null, null];
@@ -240,9 +277,8 @@ function generateExperimentLayoutSheet(params: ExcelGenerationParams): XLSX.Work
   // Experiment name rows
   for (const bit of bitPositions) {
     const row: (string | null)[] = [null, null];
-    for (const exp of experiments) {
-      const label = reportEvery ? `Bit ${bit}` : `Position ${exp.finalState}`;
-      const expName = `${exp.name}; ${label}; Ans ${exp.finalState}`;
+    for (let i = 0; i < experiments.length; i++) {
+      const expName = rowLabel(i, bit);
       row.push(expName);
       row.push(expName);
     }
@@ -255,9 +291,8 @@ function generateExperimentLayoutSheet(params: ExcelGenerationParams): XLSX.Work
   // Control section
   for (const bit of bitPositions) {
     const row: (string | null)[] = [null, null];
-    for (const exp of experiments) {
-      const label = reportEvery ? `Bit ${bit}` : `Position ${exp.finalState}`;
-      const ctrlName = `${exp.name}; ${label}; Ans ${exp.finalState}; Control`;
+    for (let i = 0; i < experiments.length; i++) {
+      const ctrlName = `${rowLabel(i, bit)}; Control`;
       row.push(ctrlName);
       row.push(ctrlName);
     }
@@ -290,10 +325,13 @@ function generateReagentsAndTilesSheet(
 
   // Generate competing tiles per experiment using step generator logic
   const competingTilesPerExp = experiments.map(exp => 
-    generateCompetingTilesFromSteps(fsmData, exp.fsmInput).flat()
+    generateCompetingTilesFromSteps(fsmData, exp.fsmInput, {
+      ...params.tileNaming,
+      prune: params.pruneUnreachableTiles,
+    }).flat()
   );
   // Get correct tiles per experiment for control columns
-  const correctTilesPerExp = experiments.map(exp => getCorrectTiles(fsmData, exp.fsmInput));
+  const correctTilesPerExp = experiments.map(exp => getCorrectTiles(fsmData, exp.fsmInput, params.tileNaming));
   const defaultStock = stockConcentration || 50;
 
   // Find the max row count across all experiments
@@ -460,7 +498,7 @@ function generateReagentsAndTilesSheet(
 /**
  * Generate Metadata sheet
  */
-function generateMetadataSheet(params: ExcelGenerationParams): XLSX.WorkSheet {
+function generateMetadataSheet(params: ExcelGenerationParams, fsmData: FSMData): XLSX.WorkSheet {
   const { experiments, stockConcentration, targetConcentration, totalVolume } = params;
 
   const data: (string | number)[][] = [
@@ -472,6 +510,18 @@ function generateMetadataSheet(params: ExcelGenerationParams): XLSX.WorkSheet {
     ['Total Volume', totalVolume],
   ];
 
+  // Add FSM details, including any metadata from the definition file
+  data.push(['', '']);
+  data.push(['FSM Name', fsmData.name]);
+  for (const field of METADATA_FIELDS) {
+    if (fsmData.metadata[field] !== undefined) {
+      data.push([`FSM ${field.charAt(0).toUpperCase()}${field.slice(1)}`, fsmData.metadata[field]]);
+    }
+  }
+  data.push(['FSM States', fsmData.states]);
+  data.push(['FSM Start State', stateLabel(fsmData, fsmData.startstate)]);
+  data.push(['FSM Accept States', formatAcceptStates(fsmData)]);
+
   // Add experiment details
   data.push(['', '']);
   data.push(['Experiment Details', '']);
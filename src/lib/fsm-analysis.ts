@@ -0,0 +1,146 @@
+/**
+ * FSM Analysis - structural checks over the transition graph
+ * Reachability, states that can never accept, sinks and strongly connected components
+ */
+
+import { FSMData, getStateIds, isAcceptState, stateLabel } from './fsm-parser';
+
+export interface StructuralAnalysis {
+  unreachable: number[]; // no input leads here from the start state
+  cannotAccept: number[]; // no input leads from here to an accept state
+  sinks: number[]; // every symbol is defined and every transition loops back to the state itself
+  components: number[][]; // strongly connected components, ordered by their lowest state
+}
+
+/**
+ * Successors of each state, ignoring symbols (ε transitions included)
+ */
+function successorMap(fsm: FSMData): Map<number, number[]> {
+  const successors = new Map<number, number[]>();
+  for (const state of getStateIds(fsm)) {
+    const targets = (fsm.transitions[state] ?? []).map(([, target]) => parseInt(target, 10));
+    successors.set(state, targets.filter((target, idx) => targets.indexOf(target) === idx));
+  }
+  return successors;
+}
+
+/**
+ * Every state reachable from `from` along the given edges, including `from` itself
+ */
+function closure(edges: Map<number, number[]>, from: number[]): Set<number> {
+  const seen = new Set(from);
+  const stack = [...from];
+  while (stack.length > 0) {
+    const state = stack.pop()!;
+    for (const next of edges.get(state) ?? []) {
+      if (!seen.has(next)) {
+        seen.add(next);
+        stack.push(next);
+      }
+    }
+  }
+  return seen;
+}
+
+/**
+ * Tarjan's algorithm over the successor map
+ */
+function stronglyConnectedComponents(states: number[], successors: Map<number, number[]>): number[][] {
+  const index = new Map<number, number>();
+  const lowlink = new Map<number, number>();
+  const onStack = new Set<number>();
+  const stack: number[] = [];
+  const components: number[][] = [];
+
+  const visit = (state: number) => {
+    index.set(state, index.size);
+    lowlink.set(state, index.get(state));
+    stack.push(state);
+    onStack.add(state);
+
+    for (const next of successors.get(state) ?? []) {
+      if (!index.has(next)) {
+        visit(next);
+        lowlink.set(state, Math.min(lowlink.get(state), lowlink.get(next)));
+      } else if (onStack.has(next)) {
+        lowlink.set(state, Math.min(lowlink.get(state), index.get(next)));
+      }
+    }
+
+    if (lowlink.get(state) === index.get(state)) {
+      const component: number[] = [];
+      let member: number;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== state);
+      components.push(component.sort((a, b) => a - b));
+    }
+  };
+
+  for (const state of states) {
+    if (!index.has(state)) visit(state);
+  }
+
+  return components.sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Analyze the transition graph of any machine. In partial mode the implicit dead
+ * state is not a state of the machine, so it never appears in the results.
+ */
+export function analyzeStructure(fsm: FSMData): StructuralAnalysis {
+  const states = getStateIds(fsm);
+  const successors = successorMap(fsm);
+
+  const reachable = closure(successors, [fsm.startstate]);
+
+  const predecessors = new Map<number, number[]>(states.map(state => [state, []]));
+  for (const [state, targets] of successors) {
+    for (const target of targets) predecessors.get(target)?.push(state);
+  }
+  const canAccept = closure(predecessors, states.filter(state => isAcceptState(fsm, state)));
+
+  const sinks = states.filter(state => {
+    const row = fsm.transitions[state] ?? [];
+    return fsm.symbols.every(symbol => row.some(([transSymbol]) => transSymbol === symbol))
+      && row.every(([, target]) => parseInt(target, 10) === state);
+  });
+
+  return {
+    unreachable: states.filter(state => !reachable.has(state)),
+    cannotAccept: states.filter(state => !canAccept.has(state)),
+    sinks,
+    components: stronglyConnectedComponents(states, successors),
+  };
+}
+
+/**
+ * Human-readable warnings for the findings worth acting on; empty for a clean machine
+ */
+export function structuralWarnings(fsm: FSMData, analysis: StructuralAnalysis): string[] {
+  const list = (states: number[]) => states.map(state => stateLabel(fsm, state)).join(', ');
+  const warnings: string[] = [];
+
+  if (analysis.unreachable.length > 0) {
+    warnings.push(
+      `Unreachable from the start state: ${list(analysis.unreachable)} (still given competing tiles unless pruning to reachable states is on)`
+    );
+  }
+  // Unreachable states are already reported, and a reachable dead sink is usually intended
+  const cannotAccept = analysis.cannotAccept.filter(
+    state => !analysis.unreachable.includes(state) && !analysis.sinks.includes(state)
+  );
+  if (cannotAccept.length > 0) {
+    warnings.push(`Can never reach an accept state: ${list(cannotAccept)}`);
+  }
+  if (analysis.sinks.length > 0) {
+    const accepting = analysis.sinks.filter(state => isAcceptState(fsm, state));
+    const rejecting = analysis.sinks.filter(state => !isAcceptState(fsm, state));
+    if (rejecting.length > 0) warnings.push(`Rejecting sink (dead state): ${list(rejecting)}`);
+    if (accepting.length > 0) warnings.push(`Accepting sink (accepts every continuation): ${list(accepting)}`);
+  }
+
+  return warnings;
+}
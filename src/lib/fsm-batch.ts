@@ -0,0 +1,274 @@
+/**
+ * FSM Batch - runs a list of inputs with expected outcomes against a machine
+ * Cases come from pasted text or CSV (input, ACCEPT|REJECT, optional final state); results export as CSV or JSON
+ */
+
+import { FSMData, getStateIds, runFSM, stateLabel } from './fsm-parser';
+import { runNFA } from './fsm-nfa';
+import { tokenizeInput } from './fsm-tokenizer';
+import { downloadTextFile } from './download';
+
+export type Verdict = 'ACCEPT' | 'REJECT';
+export type Outcome = Verdict | 'ERROR'; // ERROR: the input does not split into symbols of the alphabet
+
+export interface BatchCase {
+  input: string;
+  expected: Verdict;
+  expectedState: number | null; // null when the case does not check the final state
+  line: number; // 1-based line in the source text
+}
+
+export interface BatchParseResult {
+  cases: BatchCase[];
+  errors: string[]; // "Line N: ..." for rows that could not be read; the other rows are still returned
+}
+
+export interface BatchResult extends BatchCase {
+  index: number; // position in the batch, 1-based
+  actual: Outcome; // never ERROR for an expected verdict, so a mistyped input cannot pass
+  finalState: number | null; // null for NFAs, invalid inputs and the implicit dead state
+  error?: string;
+  passed: boolean;
+}
+
+export interface BatchSummary {
+  total: number;
+  passed: number;
+  failed: number;
+}
+
+export type BatchSortKey = 'index' | 'input' | 'expected' | 'actual' | 'finalState' | 'passed';
+
+const VERDICTS: Record<string, Verdict> = {
+  accept: 'ACCEPT',
+  accepted: 'ACCEPT',
+  reject: 'REJECT',
+  rejected: 'REJECT',
+};
+
+/**
+ * Split one CSV or tab-separated row into trimmed fields; double quotes may wrap
+ * a field containing the separator, with "" for a literal quote
+ */
+function splitRow(row: string): string[] {
+  const separator = row.includes('\t') && !row.includes(',') ? '\t' : ',';
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (quoted) {
+      if (char === '"' && row[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === separator) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(quoted ? field : field.trim());
+  return fields;
+}
+
+/**
+ * State index for a label as written in the machine file or shown in the app: a state
+ * name for named machines, otherwise the number with or without the q prefix
+ */
+export function resolveState(fsm: FSMData, label: string): number | null {
+  if (fsm.namedStates) {
+    return label in fsm.stateIndex ? fsm.stateIndex[label] : null;
+  }
+  const match = /^q?(\d+)$/i.exec(label);
+  const state = match ? parseInt(match[1], 10) : NaN;
+  return getStateIds(fsm).includes(state) ? state : null;
+}
+
+/**
+ * Read batch cases from pasted text or a CSV file, one per line:
+ * input, ACCEPT or REJECT, and optionally the expected final state.
+ * Blank lines, lines starting with # and a header row are skipped; ε or an empty
+ * first field stands for the empty input.
+ */
+export function parseBatch(text: string, fsm: FSMData): BatchParseResult {
+  const cases: BatchCase[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((row, idx) => {
+    const line = idx + 1;
+    if (row.trim() === '' || row.trim().startsWith('#')) return;
+
+    const [input = '', verdict = '', state = ''] = splitRow(row);
+    const expected = VERDICTS[verdict.toLowerCase()];
+    if (!expected) {
+      // A first row like "input,expected,final state" is a header, not a mistake
+      if (cases.length === 0 && errors.length === 0 && /expect|result|verdict/i.test(verdict)) return;
+      errors.push(`Line ${line}: Expected ACCEPT or REJECT, got '${verdict}'`);
+      return;
+    }
+
+    let expectedState: number | null = null;
+    if (state !== '') {
+      expectedState = resolveState(fsm, state);
+      if (expectedState === null) {
+        errors.push(`Line ${line}: Unknown state '${state}'`);
+        return;
+      }
+    }
+
+    cases.push({ input: input === 'ε' ? '' : input, expected, expectedState, line });
+  });
+
+  return { cases, errors };
+}
+
+/**
+ * Run every case. DFAs go through runFSM; NFAs through runNFA, where an expected
+ * final state passes when it is one of the active states at the end. Only running
+ * out of transitions (a partial machine's dead state, no active NFA states) counts
+ * as REJECT; an input outside the alphabet is an ERROR and fails.
+ */
+export function runBatch(fsm: FSMData, cases: BatchCase[]): BatchResult[] {
+  return cases.map((testCase, idx) => {
+    let accepted: boolean;
+    let finalState: number | null;
+    let stateMatches: boolean;
+    let error: string | undefined;
+
+    if (fsm.mode === 'nfa') {
+      const run = runNFA(fsm, testCase.input);
+      accepted = run.accepted;
+      finalState = null;
+      error = run.error;
+      stateMatches = testCase.expectedState === null || run.endStates.includes(testCase.expectedState);
+    } else {
+      const run = runFSM(fsm, testCase.input);
+      accepted = run.accepted;
+      finalState = run.error ? null : run.endState;
+      error = run.error;
+      stateMatches = testCase.expectedState === null || testCase.expectedState === finalState;
+    }
+
+    const invalid = tokenizeInput(testCase.input, fsm.symbols).error !== undefined;
+    const actual: Outcome = invalid ? 'ERROR' : accepted ? 'ACCEPT' : 'REJECT';
+    return {
+      ...testCase,
+      index: idx + 1,
+      actual,
+      finalState,
+      error,
+      passed: actual === testCase.expected && stateMatches,
+    };
+  });
+}
+
+/**
+ * Pass and fail counts for the summary line
+ */
+export function summarizeBatch(results: BatchResult[]): BatchSummary {
+  const passed = results.filter(r => r.passed).length;
+  return { total: results.length, passed, failed: results.length - passed };
+}
+
+/**
+ * Sorted copy of the results; ties keep batch order
+ */
+export function sortBatchResults(results: BatchResult[], key: BatchSortKey, descending = false): BatchResult[] {
+  const value = (r: BatchResult): string | number => {
+    switch (key) {
+      case 'finalState':
+        return r.finalState ?? -Infinity;
+      case 'passed':
+        return r.passed ? 1 : 0;
+      default:
+        return r[key];
+    }
+  };
+
+  return [...results].sort((a, b) => {
+    const [x, y] = [value(a), value(b)];
+    const order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+    return (descending ? -order : order) || a.index - b.index;
+  });
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Results as CSV, with state labels as shown in the app
+ */
+export function batchResultsToCSV(fsm: FSMData, results: BatchResult[]): string {
+  const label = (state: number | null) => (state === null ? '' : stateLabel(fsm, state));
+  const rows = [['#', 'input', 'expected', 'expected state', 'actual', 'final state', 'result', 'error']];
+  for (const r of results) {
+    rows.push([
+      String(r.index),
+      r.input,
+      r.expected,
+      label(r.expectedState),
+      r.actual,
+      label(r.finalState),
+      r.passed ? 'PASS' : 'FAIL',
+      r.error ?? '',
+    ]);
+  }
+  return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Results as JSON, with the summary and state labels as shown in the app
+ */
+export function batchResultsToJSON(fsm: FSMData, results: BatchResult[]): string {
+  const label = (state: number | null) => (state === null ? null : stateLabel(fsm, state));
+  return JSON.stringify({
+    machine: fsm.name,
+    summary: summarizeBatch(results),
+    results: results.map(r => ({
+      index: r.index,
+      input: r.input,
+      expected: r.expected,
+      expectedState: label(r.expectedState),
+      actual: r.actual,
+      finalState: label(r.finalState),
+      passed: r.passed,
+      ...(r.error ? { error: r.error } : {}),
+    })),
+  }, null, 2) + '\n';
+}
+
+/**
+ * One batch row as parseBatch reads it back; the final state is left out when null
+ */
+export function formatBatchRow(fsm: FSMData, input: string, expected: Outcome, state: number | null): string {
+  return [input === '' ? 'ε' : input, expected, ...(state === null ? [] : [stateLabel(fsm, state)])].map(csvField).join(',');
+}
+
+/**
+ * Batch text that records the machine's current verdict and final state for each
+ * input, e.g. to keep a generated suite as a regression test
+ */
+export function recordBatch(fsm: FSMData, inputs: string[]): string {
+  const cases = inputs.map((input, idx) => ({ input, expected: 'ACCEPT' as Verdict, expectedState: null, line: idx + 1 }));
+  return runBatch(fsm, cases)
+    .map(r => formatBatchRow(fsm, r.input, r.actual, r.finalState))
+    .join('\n') + '\n';
+}
+
+/**
+ * Download exported results
+ */
+export function downloadBatchResults(content: string, filename: string, type: 'text/csv' | 'application/json'): void {
+  downloadTextFile(content, filename, type);
+}
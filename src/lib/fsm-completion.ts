@@ -0,0 +1,74 @@
+/**
+ * Partial DFA support - finds missing transitions and makes the implicit dead state explicit
+ */
+
+import { FSMData, getStateIds } from './fsm-parser';
+
+export interface MissingTransition {
+  state: number;
+  symbol: string;
+}
+
+/**
+ * Every state/symbol pair without a transition, in state then alphabet order
+ */
+export function findMissingTransitions(fsm: FSMData): MissingTransition[] {
+  const missing: MissingTransition[] = [];
+
+  for (const state of getStateIds(fsm)) {
+    const defined = new Set((fsm.transitions[state] ?? []).map(([symbol]) => symbol));
+    for (const symbol of fsm.symbols) {
+      if (!defined.has(symbol)) {
+        missing.push({ state, symbol });
+      }
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Pick a name for the dead state that no existing state uses: dead, dead_2, dead_3, ...
+ */
+function sinkName(fsm: FSMData): string {
+  let name = 'dead';
+  for (let n = 2; name in fsm.stateIndex; n++) {
+    name = `dead_${n}`;
+  }
+  return name;
+}
+
+/**
+ * Complete a partial DFA by routing every missing transition to a new,
+ * non-accepting dead state that loops on every symbol. The dead state takes
+ * the next free index (and the name "dead" for named machines). Machines
+ * without missing transitions are returned as DFAs with no extra state.
+ */
+export function addSinkState(fsm: FSMData): FSMData {
+  const missing = findMissingTransitions(fsm);
+  if (missing.length === 0) {
+    return { ...fsm, mode: 'dfa' };
+  }
+
+  const sink = (fsm.zeroIndexed ? 0 : 1) + fsm.states;
+  const transitions: Record<number, [string, string][]> = {};
+  for (const state of getStateIds(fsm)) {
+    transitions[state] = [...(fsm.transitions[state] ?? [])];
+  }
+  for (const { state, symbol } of missing) {
+    transitions[state].push([symbol, String(sink)]);
+  }
+  transitions[sink] = fsm.symbols.map(symbol => [symbol, String(sink)] as [string, string]);
+
+  const name = fsm.namedStates ? sinkName(fsm) : String(sink);
+
+  return {
+    ...fsm,
+    states: fsm.states + 1,
+    transitions,
+    acceptstates: new Set(fsm.acceptstates),
+    stateNames: { ...fsm.stateNames, [sink]: name },
+    stateIndex: { ...fsm.stateIndex, [name]: sink },
+    mode: 'dfa',
+  };
+}
@@ -1,10 +1,16 @@
 import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { FSMData } from './fsm-parser';
+import { FSMData, FSMDiagnostic } from './fsm-parser';
+import { FSMTestSuite } from './fsm-test-suite';
 
 interface FSMContextType {
   fsmData: FSMData | null;
   fileName: string | null;
-  setFSMData: (data: FSMData, fileName: string) => void;
+  warnings: FSMDiagnostic[];
+  testSuite: FSMTestSuite | null; // carried over DFA conversion and minimization with remapTestSuite / dropExpectedStates
+  setFSMData: (data: FSMData, fileName: string, warnings?: FSMDiagnostic[]) => void;
+  setTestSuite: (suite: FSMTestSuite | null) => void;
+  explicitSink: boolean; // route a partial machine's missing transitions to a dead state for export, steps and sheets
+  setExplicitSink: (explicit: boolean) => void;
   clearFSMData: () => void;
 }
 
@@ -13,19 +19,25 @@ const FSMContext = createContext<FSMContextType | undefined>(undefined);
 export function FSMProvider({ children }: { children: ReactNode }) {
   const [fsmData, setFsmDataState] = useState<FSMData | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<FSMDiagnostic[]>([]);
+  const [testSuite, setTestSuite] = useState<FSMTestSuite | null>(null);
+  const [explicitSink, setExplicitSink] = useState(false);
 
-  const setFSMData = (data: FSMData, name: string) => {
+  const setFSMData = (data: FSMData, name: string, parseWarnings: FSMDiagnostic[] = []) => {
     setFsmDataState(data);
     setFileName(name);
+    setWarnings(parseWarnings);
   };
 
   const clearFSMData = () => {
     setFsmDataState(null);
     setFileName(null);
+    setWarnings([]);
+    setTestSuite(null);
   };
 
   return (
-    <FSMContext.Provider value={{ fsmData, fileName, setFSMData, clearFSMData }}>
+    <FSMContext.Provider value={{ fsmData, fileName, warnings, testSuite, setFSMData, setTestSuite, explicitSink, setExplicitSink, clearFSMData }}>
       {children}
     </FSMContext.Provider>
   );
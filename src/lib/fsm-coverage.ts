@@ -0,0 +1,223 @@
+/**
+ * FSM Coverage - test suites that exercise every transition of a machine
+ * Every transition is a tile in the lab, so a transition cover is a set of experiments proving each tile works at least once
+ */
+
+import { FSMData, getStateIds, isAcceptState } from './fsm-parser';
+import { shortestInput } from './fsm-witness';
+
+export type SuiteKind = 'transition' | 'w-method';
+
+export interface TransitionRef {
+  from: number;
+  symbol: string;
+  to: number;
+}
+
+export interface CoverageSuite {
+  kind: SuiteKind;
+  inputs: string[][];
+  transitions: TransitionRef[]; // every transition of the machine, the columns of the matrix
+  matrix: boolean[][]; // matrix[input][transition]: the input takes that transition
+  uncovered: TransitionRef[]; // transitions no input takes, i.e. those leaving unreachable states
+  characterizingSet?: string[][]; // W-method only: suffixes that tell every pair of states apart
+}
+
+function requireDeterministic(fsm: FSMData): void {
+  if (fsm.mode === 'nfa') {
+    throw new Error('Test suites need a deterministic machine; convert the NFA to a DFA first');
+  }
+}
+
+/**
+ * Next state on a symbol; null is the implicit dead state of a partial DFA
+ */
+function move(fsm: FSMData, state: number | null, symbol: string): number | null {
+  if (state === null) return null;
+  const transition = (fsm.transitions[state] ?? []).find(([transSymbol]) => transSymbol === symbol);
+  return transition ? parseInt(transition[1], 10) : null;
+}
+
+function accepts(fsm: FSMData, from: number | null, symbols: string[]): boolean {
+  const end = symbols.reduce((state, symbol) => move(fsm, state, symbol), from);
+  return end !== null && isAcceptState(fsm, end);
+}
+
+/**
+ * Every defined transition, by state and then in the order of the transition row
+ */
+export function listTransitions(fsm: FSMData): TransitionRef[] {
+  return getStateIds(fsm).flatMap(from =>
+    (fsm.transitions[from] ?? []).map(([symbol, to]) => ({ from, symbol, to: parseInt(to, 10) }))
+  );
+}
+
+/**
+ * Which transitions each input takes from the start state. An input that falls
+ * off a partial machine covers the transitions it took before falling off.
+ */
+export function coverageMatrix(fsm: FSMData, transitions: TransitionRef[], inputs: string[][]): boolean[][] {
+  const index = new Map(transitions.map((t, i) => [`${t.from}|${t.symbol}`, i]));
+
+  return inputs.map(symbols => {
+    const row = transitions.map(() => false);
+    let state: number | null = fsm.startstate;
+    for (const symbol of symbols) {
+      const taken = index.get(`${state}|${symbol}`);
+      if (taken === undefined) break;
+      row[taken] = true;
+      state = transitions[taken].to;
+    }
+    return row;
+  });
+}
+
+function buildSuite(fsm: FSMData, kind: SuiteKind, inputs: string[][]): CoverageSuite {
+  const transitions = listTransitions(fsm);
+  const matrix = coverageMatrix(fsm, transitions, inputs);
+  const uncovered = transitions.filter((_, i) => !matrix.some(row => row[i]));
+  return { kind, inputs, transitions, matrix, uncovered };
+}
+
+/**
+ * Shortest walk from `from` that ends by taking a pending transition, as transition
+ * indices; null when no pending transition can be reached from there
+ */
+function pathToPending(
+  transitions: TransitionRef[],
+  outgoing: Map<number, number[]>,
+  from: number,
+  pending: Set<number>
+): number[] | null {
+  const seen = new Set<number>([from]);
+  const queue: { state: number; path: number[] }[] = [{ state: from, path: [] }];
+
+  while (queue.length > 0) {
+    const { state, path } = queue.shift()!;
+    for (const t of outgoing.get(state) ?? []) {
+      if (pending.has(t)) return [...path, t];
+    }
+    for (const t of outgoing.get(state) ?? []) {
+      const next = transitions[t].to;
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push({ state: next, path: [...path, t] });
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * A small set of inputs that together take every transition reachable from the
+ * start state. Each input keeps walking to the nearest transition not yet taken
+ * until none is reachable from where it stands, so one input usually covers many
+ * tiles; a new input starts only when the walk gets stuck (e.g. in a sink).
+ */
+export function transitionCoverSuite(fsm: FSMData): CoverageSuite {
+  requireDeterministic(fsm);
+  const transitions = listTransitions(fsm);
+  const outgoing = new Map<number, number[]>();
+  transitions.forEach((t, i) => outgoing.set(t.from, [...(outgoing.get(t.from) ?? []), i]));
+
+  const reachable = new Set<number>([fsm.startstate]);
+  const stack = [fsm.startstate];
+  while (stack.length > 0) {
+    for (const t of outgoing.get(stack.pop()!) ?? []) {
+      if (!reachable.has(transitions[t].to)) {
+        reachable.add(transitions[t].to);
+        stack.push(transitions[t].to);
+      }
+    }
+  }
+
+  const pending = new Set(transitions.map((_, i) => i).filter(i => reachable.has(transitions[i].from)));
+  const inputs: string[][] = [];
+  while (pending.size > 0) {
+    const symbols: string[] = [];
+    let path = pathToPending(transitions, outgoing, fsm.startstate, pending);
+    while (path) {
+      for (const t of path) {
+        symbols.push(transitions[t].symbol);
+        pending.delete(t);
+      }
+      path = pathToPending(transitions, outgoing, transitions[path[path.length - 1]].to, pending);
+    }
+    inputs.push(symbols);
+  }
+
+  return buildSuite(fsm, 'transition', inputs);
+}
+
+/**
+ * Shortest suffix accepted from one state and rejected from the other, by
+ * breadth-first search over pairs of states; null when the states are equivalent
+ */
+function distinguishingSuffix(fsm: FSMData, p: number | null, q: number | null): string[] | null {
+  const key = (a: number | null, b: number | null) => `${a}|${b}`;
+  const seen = new Set<string>([key(p, q)]);
+  const queue: { a: number | null; b: number | null; symbols: string[] }[] = [{ a: p, b: q, symbols: [] }];
+
+  while (queue.length > 0) {
+    const { a, b, symbols } = queue.shift()!;
+    if (accepts(fsm, a, []) !== accepts(fsm, b, [])) return symbols;
+    for (const symbol of fsm.symbols) {
+      const next = [move(fsm, a, symbol), move(fsm, b, symbol)] as const;
+      if (!seen.has(key(...next))) {
+        seen.add(key(...next));
+        queue.push({ a: next[0], b: next[1], symbols: [...symbols, symbol] });
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * W-method suite: every input of the transition cover P (the shortest input to each
+ * state, and that input followed by each symbol) followed by every suffix of a
+ * characterizing set W. For a minimal machine, passing it shows that an
+ * implementation with no more states is equivalent; equivalent states cannot be
+ * told apart, so minimize the machine first.
+ */
+export function wMethodSuite(fsm: FSMData): CoverageSuite {
+  requireDeterministic(fsm);
+  const stateCover = getStateIds(fsm)
+    .map(state => ({ state, reach: shortestInput(fsm, fsm.startstate, s => s === state) }))
+    .filter(({ reach }) => reach !== null);
+  const states: (number | null)[] = stateCover.map(({ state }) => state);
+  // A partial machine has one more state to tell apart: where missing transitions lead
+  if (fsm.mode === 'partial') states.push(null);
+
+  const characterizingSet: string[][] = [];
+  for (let i = 0; i < states.length; i++) {
+    for (let j = i + 1; j < states.length; j++) {
+      const [p, q] = [states[i], states[j]];
+      if (characterizingSet.some(w => accepts(fsm, p, w) !== accepts(fsm, q, w))) continue;
+      const suffix = distinguishingSuffix(fsm, p, q);
+      if (suffix) characterizingSet.push(suffix);
+    }
+  }
+  if (characterizingSet.length === 0) characterizingSet.push([]);
+
+  const prefixes = [
+    ...stateCover.map(({ reach }) => reach),
+    ...stateCover.flatMap(({ reach }) => fsm.symbols.map(symbol => [...reach, symbol])),
+  ];
+
+  const seen = new Set<string>();
+  const inputs: string[][] = [];
+  for (const prefix of prefixes) {
+    for (const suffix of characterizingSet) {
+      const input = [...prefix, ...suffix];
+      const key = input.join('\u0000');
+      if (!seen.has(key)) {
+        seen.add(key);
+        inputs.push(input);
+      }
+    }
+  }
+
+  return { ...buildSuite(fsm, 'w-method', inputs), characterizingSet };
+}
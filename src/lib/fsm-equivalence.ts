@@ -0,0 +1,77 @@
+/**
+ * FSM Equivalence - decides whether two machines accept the same language
+ * Explores both machines in lockstep, breadth-first, so the first disagreement is a shortest counterexample
+ */
+
+import { FSMData, isAcceptState } from './fsm-parser';
+import { epsilonClosure, stepNFA } from './fsm-nfa';
+
+export interface EquivalenceResult {
+  equivalent: boolean;
+  counterexample?: string[]; // shortest input, as symbols, that one machine accepts and the other rejects
+  acceptedBy?: 'first' | 'second';
+  alphabet: string[]; // symbols explored: the union of both alphabets
+}
+
+/**
+ * Active states after reading a symbol; a symbol outside the machine's alphabet
+ * (or a missing transition) leaves no active states, i.e. the input is rejected
+ */
+function advance(fsm: FSMData, states: number[], symbol: string): number[] {
+  if (!fsm.symbols.includes(symbol)) return [];
+  return stepNFA(fsm, states, symbol);
+}
+
+function accepts(fsm: FSMData, states: number[]): boolean {
+  return states.some(state => isAcceptState(fsm, state));
+}
+
+/**
+ * Check two machines for language equivalence. Works for any mix of DFAs,
+ * partial DFAs and NFAs, whatever their indexing schemes or state counts:
+ * each machine is tracked by its own set of active states. Outputs are ignored.
+ */
+export function checkEquivalence(first: FSMData, second: FSMData): EquivalenceResult {
+  const alphabet = [...first.symbols];
+  for (const symbol of second.symbols) {
+    if (!alphabet.includes(symbol)) alphabet.push(symbol);
+  }
+
+  type Pair = { a: number[]; b: number[]; input: string[] };
+  const start: Pair = {
+    a: epsilonClosure(first, [first.startstate]),
+    b: epsilonClosure(second, [second.startstate]),
+    input: [],
+  };
+  const key = (pair: Pair) => `${pair.a.join(',')}|${pair.b.join(',')}`;
+  const seen = new Set<string>([key(start)]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const pair = queue.shift()!;
+    const acceptedA = accepts(first, pair.a);
+    const acceptedB = accepts(second, pair.b);
+    if (acceptedA !== acceptedB) {
+      return {
+        equivalent: false,
+        counterexample: pair.input,
+        acceptedBy: acceptedA ? 'first' : 'second',
+        alphabet,
+      };
+    }
+
+    for (const symbol of alphabet) {
+      const next: Pair = {
+        a: advance(first, pair.a, symbol),
+        b: advance(second, pair.b, symbol),
+        input: [...pair.input, symbol],
+      };
+      if (!seen.has(key(next))) {
+        seen.add(key(next));
+        queue.push(next);
+      }
+    }
+  }
+
+  return { equivalent: true, alphabet };
+}
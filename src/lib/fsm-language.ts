@@ -0,0 +1,102 @@
+/**
+ * FSM Language - enumerates and counts the strings a machine accepts, length by length
+ * Counting is a dynamic program over states, so it stays fast long after listing becomes impractical
+ */
+
+import { FSMData, isAcceptState } from './fsm-parser';
+import { epsilonClosure, nfaToDFA, stepNFA } from './fsm-nfa';
+
+export interface LengthCount {
+  length: number;
+  accepted: bigint;
+  rejected: bigint;
+  total: bigint; // |alphabet| ^ length
+  share: number; // accepted / total, 0..1
+}
+
+export interface EnumeratedString {
+  symbols: string[];
+  accepted: boolean;
+}
+
+export interface EnumerationResult {
+  strings: EnumeratedString[]; // by length, then in alphabet order
+  truncated: boolean; // stopped at the limit before covering every length
+}
+
+/**
+ * Accepted fraction as a number; exact enough for display even when the counts exceed 2^53
+ */
+function ratio(part: bigint, whole: bigint): number {
+  if (whole === 0n) return 0;
+  // Keep 12 digits of the quotient before converting
+  const scale = 10n ** 12n;
+  return Number((part * scale) / whole) / Number(scale);
+}
+
+/**
+ * Count accepted and rejected strings of every length 0..maxLength.
+ * Each step moves the number of strings ending in each state along its transitions;
+ * strings that fall off a partial machine are counted as rejected. NFAs are
+ * determinized first so that every string is counted once.
+ */
+export function countByLength(fsm: FSMData, maxLength: number): LengthCount[] {
+  const machine = fsm.mode === 'nfa' ? nfaToDFA(fsm).dfa : fsm;
+  const alphabetSize = BigInt(machine.symbols.length);
+
+  let counts = new Map<number, bigint>([[machine.startstate, 1n]]);
+  let total = 1n;
+  const result: LengthCount[] = [];
+
+  for (let length = 0; length <= maxLength; length++) {
+    let accepted = 0n;
+    for (const [state, count] of counts) {
+      if (isAcceptState(machine, state)) accepted += count;
+    }
+    result.push({ length, accepted, rejected: total - accepted, total, share: ratio(accepted, total) });
+
+    const next = new Map<number, bigint>();
+    for (const [state, count] of counts) {
+      for (const [, target] of machine.transitions[state] ?? []) {
+        const to = parseInt(target, 10);
+        next.set(to, (next.get(to) ?? 0n) + count);
+      }
+    }
+    counts = next;
+    total *= alphabetSize;
+  }
+
+  return result;
+}
+
+/**
+ * List every string of length 0..maxLength with its verdict, shortest first.
+ * Works on any machine by tracking the active state set; stops after `limit` strings.
+ */
+export function enumerateStrings(fsm: FSMData, maxLength: number, limit = 10000): EnumerationResult {
+  const strings: EnumeratedString[] = [];
+  let frontier: { symbols: string[]; states: number[] }[] = [
+    { symbols: [], states: epsilonClosure(fsm, [fsm.startstate]) },
+  ];
+
+  for (let length = 0; length <= maxLength; length++) {
+    for (const { symbols, states } of frontier) {
+      if (strings.length >= limit) return { strings, truncated: true };
+      strings.push({ symbols, accepted: states.some(state => isAcceptState(fsm, state)) });
+    }
+    if (length === maxLength) break;
+
+    // Never build more of the next length than the limit leaves room for
+    const room = limit - strings.length;
+    const next: { symbols: string[]; states: number[] }[] = [];
+    for (const { symbols, states } of frontier) {
+      for (const symbol of fsm.symbols) {
+        if (next.length > room) break;
+        next.push({ symbols: [...symbols, symbol], states: stepNFA(fsm, states, symbol) });
+      }
+    }
+    frontier = next;
+  }
+
+  return { strings, truncated: false };
+}
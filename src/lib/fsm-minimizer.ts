@@ -0,0 +1,209 @@
+/**
+ * FSM Minimizer - Hopcroft's partition refinement
+ * Produces the smallest DFA accepting the same language (and producing the same outputs)
+ */
+
+import { FSMData, createFSM, getStateIds, isAcceptState } from './fsm-parser';
+import { addSinkState } from './fsm-completion';
+
+export interface MinimizationResult {
+  dfa: FSMData;
+  mapping: Record<number, number | null>; // original state -> minimized state, null when unreachable
+  unreachable: number[]; // original states dropped because the start state cannot reach them
+}
+
+/**
+ * States reachable from the start state, in breadth-first order
+ */
+function reachableStates(fsm: FSMData): number[] {
+  const seen = new Set<number>([fsm.startstate]);
+  const order = [fsm.startstate];
+
+  for (let i = 0; i < order.length; i++) {
+    for (const [, target] of fsm.transitions[order[i]] ?? []) {
+      const next = parseInt(target, 10);
+      if (!seen.has(next)) {
+        seen.add(next);
+        order.push(next);
+      }
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Next state on a symbol; minimization runs on complete DFAs so it always exists
+ */
+function nextState(fsm: FSMData, state: number, symbol: string): number {
+  const transition = (fsm.transitions[state] ?? []).find(([transSymbol]) => transSymbol === symbol);
+  return parseInt(transition[1], 10);
+}
+
+/**
+ * Everything that must match for two states to be merged before looking at successors:
+ * acceptance, the Moore output and the Mealy output on each symbol
+ */
+function stateSignature(fsm: FSMData, state: number): string {
+  return JSON.stringify([
+    isAcceptState(fsm, state),
+    fsm.stateOutputs[state] ?? null,
+    fsm.symbols.map(symbol => fsm.transitionOutputs[state]?.[symbol] ?? null),
+  ]);
+}
+
+/**
+ * Split the reachable states into blocks of equivalent states with Hopcroft's algorithm
+ */
+function refinePartition(fsm: FSMData, states: number[]): number[][] {
+  const blocks: number[][] = [];
+  const blockOf = new Map<number, number>();
+  const bySignature = new Map<string, number>();
+  for (const state of states) {
+    const signature = stateSignature(fsm, state);
+    if (!bySignature.has(signature)) {
+      bySignature.set(signature, blocks.length);
+      blocks.push([]);
+    }
+    blocks[bySignature.get(signature)].push(state);
+    blockOf.set(state, bySignature.get(signature));
+  }
+
+  // predecessors[symbol][state] = states that move to `state` on `symbol`
+  const predecessors: Record<string, Record<number, number[]>> = {};
+  for (const symbol of fsm.symbols) {
+    predecessors[symbol] = {};
+    for (const state of states) {
+      const target = nextState(fsm, state, symbol);
+      (predecessors[symbol][target] ??= []).push(state);
+    }
+  }
+
+  const worklist = new Set(blocks.map((_, idx) => idx));
+  while (worklist.size > 0) {
+    const splitterIdx = worklist.values().next().value as number;
+    worklist.delete(splitterIdx);
+    const splitter = [...blocks[splitterIdx]];
+
+    for (const symbol of fsm.symbols) {
+      // Group the states that move into the splitter by their current block
+      const touched = new Map<number, number[]>();
+      for (const state of splitter) {
+        for (const pred of predecessors[symbol][state] ?? []) {
+          const block = blockOf.get(pred);
+          if (!touched.has(block)) touched.set(block, []);
+          touched.get(block).push(pred);
+        }
+      }
+
+      for (const [block, inside] of touched) {
+        if (inside.length === blocks[block].length) continue;
+
+        const insideSet = new Set(inside);
+        const outside = blocks[block].filter(state => !insideSet.has(state));
+        const newBlock = blocks.length;
+        blocks[block] = inside;
+        blocks.push(outside);
+        for (const state of outside) blockOf.set(state, newBlock);
+
+        if (worklist.has(block)) {
+          worklist.add(newBlock);
+        } else {
+          worklist.add(inside.length <= outside.length ? block : newBlock);
+        }
+      }
+    }
+  }
+
+  return blocks.map(block => [...block].sort((a, b) => a - b));
+}
+
+/**
+ * Minimize a DFA. Unreachable states are dropped and equivalent states merged;
+ * the result is numbered breadth-first from the start state in the original
+ * indexing scheme, and named machines keep the name of each block's lowest state.
+ * Partial DFAs are completed with a dead state first, so the result is a complete DFA.
+ */
+export function minimizeDFA(fsm: FSMData): MinimizationResult {
+  if (fsm.mode === 'nfa') {
+    throw new Error('Minimization needs a deterministic machine; convert the NFA to a DFA first');
+  }
+
+  const complete = fsm.mode === 'partial' ? addSinkState(fsm) : fsm;
+  const reachable = reachableStates(complete);
+  const blocks = refinePartition(complete, reachable);
+  const blockOf = new Map<number, number>();
+  blocks.forEach((block, idx) => block.forEach(state => blockOf.set(state, idx)));
+
+  // Number the blocks breadth-first from the start block
+  const base = fsm.zeroIndexed ? 0 : 1;
+  const newId = new Map<number, number>([[blockOf.get(complete.startstate), base]]);
+  const order = [blockOf.get(complete.startstate)];
+  for (let i = 0; i < order.length; i++) {
+    const representative = blocks[order[i]][0];
+    for (const symbol of complete.symbols) {
+      const block = blockOf.get(nextState(complete, representative, symbol));
+      if (!newId.has(block)) {
+        newId.set(block, base + order.length);
+        order.push(block);
+      }
+    }
+  }
+
+  const transitions: Record<number, [string, string][]> = {};
+  const transitionOutputs: Record<number, Record<string, string>> = {};
+  const stateOutputs: Record<number, string> = {};
+  const stateNames: Record<number, string> = {};
+  const acceptstates: number[] = [];
+  for (const block of order) {
+    const id = newId.get(block);
+    const representative = blocks[block][0];
+    transitions[id] = complete.symbols.map(symbol =>
+      [symbol, String(newId.get(blockOf.get(nextState(complete, representative, symbol))))] as [string, string]
+    );
+    if (complete.transitionOutputs[representative]) {
+      transitionOutputs[id] = { ...complete.transitionOutputs[representative] };
+    }
+    if (representative in complete.stateOutputs) {
+      stateOutputs[id] = complete.stateOutputs[representative];
+    }
+    if (isAcceptState(complete, representative)) acceptstates.push(id);
+    stateNames[id] = complete.stateNames[representative];
+  }
+
+  const dfa = createFSM({
+    name: `${fsm.name}_min`,
+    symbols: complete.symbols,
+    transitions,
+    startstate: base,
+    acceptstates,
+    zeroIndexed: fsm.zeroIndexed,
+    metadata: fsm.metadata,
+    transitionOutputs,
+    stateOutputs,
+    stateNames: fsm.namedStates ? stateNames : undefined,
+  });
+
+  const mapping: Record<number, number | null> = {};
+  const unreachable: number[] = [];
+  for (const state of getStateIds(fsm)) {
+    const block = blockOf.get(state);
+    mapping[state] = block === undefined ? null : newId.get(block);
+    if (block === undefined) unreachable.push(state);
+  }
+
+  return { dfa, mapping, unreachable };
+}
+
+/**
+ * Invert a minimization mapping: minimized state -> the original states merged into it.
+ * Unreachable states are left out.
+ */
+export function mergedStates(result: MinimizationResult): Record<number, number[]> {
+  const groups: Record<number, number[]> = {};
+  for (const [state, target] of Object.entries(result.mapping)) {
+    if (target === null) continue;
+    (groups[target] ??= []).push(parseInt(state, 10));
+  }
+  return groups;
+}
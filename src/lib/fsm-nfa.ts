@@ -0,0 +1,155 @@
+/**
+ * NFA support - set-of-states simulation and subset construction
+ * Works on any FSMData; a DFA is simply an NFA with one target per symbol
+ */
+
+import { FSMData, EPSILON, createFSM, isAcceptState, stateLabel } from './fsm-parser';
+import { tokenizeInput, TokenizeOptions } from './fsm-tokenizer';
+
+export interface NFAStep {
+  symbol?: string; // undefined for the initial step
+  states: number[]; // active states after reading symbol, sorted
+}
+
+export interface NFARunResult {
+  accepted: boolean;
+  trace: NFAStep[];
+  endStates: number[];
+  error?: string;
+}
+
+export interface SubsetConstructionResult {
+  dfa: FSMData;
+  subsets: Record<number, number[]>; // DFA state -> the NFA states it stands for
+}
+
+/**
+ * All targets of a state on a symbol (EPSILON for ε transitions)
+ */
+function targets(fsm: FSMData, state: number, symbol: string): number[] {
+  return (fsm.transitions[state] ?? [])
+    .filter(([transSymbol]) => transSymbol === symbol)
+    .map(([, target]) => parseInt(target, 10));
+}
+
+/**
+ * Every state reachable from `states` using only ε transitions, including the states themselves
+ */
+export function epsilonClosure(fsm: FSMData, states: Iterable<number>): number[] {
+  const closure = new Set(states);
+  const stack = [...closure];
+
+  while (stack.length > 0) {
+    const state = stack.pop()!;
+    for (const next of targets(fsm, state, EPSILON)) {
+      if (!closure.has(next)) {
+        closure.add(next);
+        stack.push(next);
+      }
+    }
+  }
+
+  return [...closure].sort((a, b) => a - b);
+}
+
+/**
+ * States reachable from `states` on one symbol, followed by their ε-closure
+ */
+export function stepNFA(fsm: FSMData, states: Iterable<number>, symbol: string): number[] {
+  const next = new Set<number>();
+  for (const state of states) {
+    for (const target of targets(fsm, state, symbol)) {
+      next.add(target);
+    }
+  }
+  return epsilonClosure(fsm, next);
+}
+
+/**
+ * Simulate the machine on an input, tracking the set of active states at each step.
+ * Accepts when any active state is an accept state after the whole input is read.
+ */
+export function runNFA(fsm: FSMData, input: string, options: TokenizeOptions = {}): NFARunResult {
+  let active = epsilonClosure(fsm, [fsm.startstate]);
+  const trace: NFAStep[] = [{ states: active }];
+
+  const tokenized = tokenizeInput(input, fsm.symbols, options);
+  if (tokenized.error) {
+    return { accepted: false, trace, endStates: active, error: tokenized.error };
+  }
+
+  for (const symbol of tokenized.symbols) {
+    active = stepNFA(fsm, active, symbol);
+    trace.push({ symbol, states: active });
+
+    if (active.length === 0) {
+      return {
+        accepted: false,
+        trace,
+        endStates: active,
+        error: `No active states left after '${symbol}'`,
+      };
+    }
+  }
+
+  return {
+    accepted: active.some(state => isAcceptState(fsm, state)),
+    trace,
+    endStates: active,
+  };
+}
+
+/**
+ * Format a set of states for display, e.g. "{q1, q3}"
+ */
+export function formatStateSet(fsm: FSMData, states: number[]): string {
+  return `{${states.map(s => stateLabel(fsm, s)).join(', ')}}`;
+}
+
+/**
+ * Convert an NFA to an equivalent DFA by subset construction.
+ * Only subsets reachable from the start state are built, numbered in
+ * breadth-first order using the source machine's indexing scheme. The empty
+ * subset, if reachable, becomes a non-accepting dead state.
+ */
+export function nfaToDFA(fsm: FSMData): SubsetConstructionResult {
+  const base = fsm.zeroIndexed ? 0 : 1;
+  const start = epsilonClosure(fsm, [fsm.startstate]);
+  const subsetIds: Record<string, number> = { [start.join(',')]: base };
+  const subsets: Record<number, number[]> = { [base]: start };
+  const transitions: Record<number, [string, string][]> = {};
+  const queue = [base];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    transitions[id] = [];
+
+    for (const symbol of fsm.symbols) {
+      const next = stepNFA(fsm, subsets[id], symbol);
+      const key = next.join(',');
+      if (!(key in subsetIds)) {
+        const nextId = base + Object.keys(subsets).length;
+        subsetIds[key] = nextId;
+        subsets[nextId] = next;
+        queue.push(nextId);
+      }
+      transitions[id].push([symbol, String(subsetIds[key])]);
+    }
+  }
+
+  const acceptstates = Object.entries(subsets)
+    .filter(([, states]) => states.some(state => isAcceptState(fsm, state)))
+    .map(([id]) => parseInt(id, 10));
+
+  const dfa = createFSM({
+    name: `${fsm.name}_dfa`,
+    symbols: fsm.symbols,
+    transitions,
+    startstate: base,
+    acceptstates,
+    zeroIndexed: fsm.zeroIndexed,
+    metadata: fsm.metadata,
+  });
+
+  return { dfa, subsets };
+}
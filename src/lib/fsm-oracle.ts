@@ -0,0 +1,83 @@
+/**
+ * FSM Oracle - exhaustive verification of a machine against an independent oracle
+ * The oracle is a predicate over inputs (evaluated in oracle-sandbox) or a reference machine;
+ * everything here is pure so the comparison can be tested without a browser
+ */
+
+import { FSMData, isAcceptState } from './fsm-parser';
+import { epsilonClosure, stepNFA } from './fsm-nfa';
+import { enumerateStrings } from './fsm-language';
+import { joinSymbols } from './fsm-tokenizer';
+
+export interface OracleCase {
+  symbols: string[];
+  input: string; // the symbols written back as an input string, as the oracle sees it
+  accepted: boolean; // the machine's verdict
+}
+
+export interface OracleMismatch extends OracleCase {
+  expected: boolean; // the oracle's verdict
+}
+
+export interface VerificationResult {
+  checked: number;
+  mismatches: OracleMismatch[];
+  truncated: boolean; // stopped at the limit before covering every length
+}
+
+/**
+ * Every input of length 0..maxLength with the machine's verdict, shortest first and
+ * then in alphabet order. Verdicts match runFSM for DFAs and runNFA for NFAs.
+ */
+export function verificationCases(
+  fsm: FSMData,
+  maxLength: number,
+  limit = 50000
+): { cases: OracleCase[]; truncated: boolean } {
+  const { strings, truncated } = enumerateStrings(fsm, maxLength, limit);
+  const cases = strings.map(({ symbols, accepted }) => ({
+    symbols,
+    input: joinSymbols(symbols, fsm.symbols),
+    accepted,
+  }));
+  return { cases, truncated };
+}
+
+/**
+ * Compare the machine's verdicts with the oracle's, case by case
+ */
+export function compareWithOracle(cases: OracleCase[], expected: boolean[], truncated = false): VerificationResult {
+  if (expected.length !== cases.length) {
+    throw new Error(`The oracle answered ${expected.length} of ${cases.length} inputs`);
+  }
+  const mismatches = cases
+    .map((c, i) => ({ ...c, expected: expected[i] }))
+    .filter(c => c.accepted !== c.expected);
+  return { checked: cases.length, mismatches, truncated };
+}
+
+/**
+ * Verdict of a reference machine for a symbol sequence. Works for every mode; symbols
+ * outside the reference's alphabet, and missing transitions, reject.
+ */
+export function referenceVerdict(reference: FSMData, symbols: string[]): boolean {
+  let states = epsilonClosure(reference, [reference.startstate]);
+  for (const symbol of symbols) {
+    states = stepNFA(reference, states, symbol);
+    if (states.length === 0) return false;
+  }
+  return states.some(state => isAcceptState(reference, state));
+}
+
+/**
+ * Check a machine against a reference machine for every input up to maxLength
+ */
+export function verifyAgainstReference(
+  fsm: FSMData,
+  reference: FSMData,
+  maxLength: number,
+  limit = 50000
+): VerificationResult {
+  const { cases, truncated } = verificationCases(fsm, maxLength, limit);
+  return compareWithOracle(cases, cases.map(c => referenceVerdict(reference, c.symbols)), truncated);
+}
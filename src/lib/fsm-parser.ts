@@ -1,31 +1,211 @@
 /**
  * FSM Parser - TypeScript port of validate.py
  * Parses and validates Finite State Machine definition files
- * Supports both 0-based and 1-based state indexing
+ * Supports both 0-based and 1-based state indexing, as well as named states
  */
 
+import { tokenizeInput, TokenizeOptions } from './fsm-tokenizer';
+
 export interface FSMData {
   name: string;
   states: number;
   symbols: string[];
   transitions: Record<number, [string, string][]>;
   startstate: number;
-  acceptstate: number;
+  acceptstates: Set<number>;
   zeroIndexed: boolean; // Track which indexing scheme is used
+  indexingSource: IndexingSource; // How the indexing scheme was decided
+  namedStates: boolean; // True when states were written as names (even, odd, ...)
+  stateNames: Record<number, string>; // index -> name
+  stateIndex: Record<string, number>; // name -> index
+  metadata: FSMMetadata;
+  mode: FSMMode;
+  transitionOutputs: Record<number, Record<string, string>>; // Mealy: state -> symbol -> output
+  stateOutputs: Record<number, string>; // Moore: state -> output
+}
+
+/**
+ * - dfa: exactly one transition per state and symbol (the default)
+ * - partial: at most one transition per state and symbol; missing ones go to an implicit dead state (mode = partial)
+ * - nfa: any number of targets per symbol, plus ε transitions (mode = nfa)
+ */
+export type FSMMode = 'dfa' | 'partial' | 'nfa';
+
+/**
+ * Symbol used for ε (empty) transitions in NFA mode; 'eps' and 'epsilon' are accepted too
+ */
+export const EPSILON = 'ε';
+const EPSILON_ALIASES = [EPSILON, 'eps', 'epsilon'];
+
+/**
+ * Optional descriptive fields: description = "...", author = "...", version = "..."
+ */
+export const METADATA_FIELDS = ['description', 'author', 'version'] as const;
+export type FSMMetadataField = typeof METADATA_FIELDS[number];
+export type FSMMetadata = Partial<Record<FSMMetadataField, string>>;
+
+/**
+ * - declared: the file has an `indexing = 0|1` header
+ * - detected: inferred from the transition rows
+ * - normalized: a "shifted" file (rows 1..N, targets 0..N-1) was rewritten to 0-based
+ * - named: named states, numbered 1..N in declaration order
+ */
+export type IndexingSource = 'declared' | 'detected' | 'normalized' | 'named';
+
+export type FSMDiagnosticSeverity = 'error' | 'warning';
+
+/**
+ * A single problem found while parsing. Lines and columns are 1-based;
+ * line 0 marks a problem with the file as a whole (e.g. a missing field).
+ */
+export interface FSMDiagnostic {
+  severity: FSMDiagnosticSeverity;
+  code: string;
+  message: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+export interface FSMParseResult {
+  fsm: FSMData | null; // null when any error was found
+  diagnostics: FSMDiagnostic[];
 }
 
 export class FSMValidationError extends Error {
   lineNumber: number;
+  code: string;
 
-  constructor(lineNumber: number, message: string) {
+  constructor(lineNumber: number, message: string, code = 'invalid-format') {
     super(`Line ${lineNumber}: ${message}`);
     this.lineNumber = lineNumber;
+    this.code = code;
     this.name = 'FSMValidationError';
   }
 }
 
+// A state reference is either an integer (1, 2) or a name (even, r0, carry)
+const STATE_LABEL = /^\w+$/;
+const NUMERIC_LABEL = /^\d+$/;
+
+/**
+ * Split a list on a separator, ignoring separators inside '...' or "..." quotes
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      current += ch;
+    } else if (ch === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+/**
+ * Index of the last `ch` that is not inside '...' or "..." quotes, or -1
+ */
+function lastIndexOutsideQuotes(text: string, ch: string): number {
+  let quote: string | null = null;
+  let found = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    if (quote) {
+      if (text[i] === quote) quote = null;
+    } else if (text[i] === '"' || text[i] === "'") {
+      quote = text[i];
+    } else if (text[i] === ch) {
+      found = i;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Remove a trailing # or // comment, ignoring comment markers inside quotes.
+ * A # only starts a comment at the start of the line or after whitespace, so a
+ * symbol such as a# or {a,#} is kept.
+ */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if ((ch === '#' && (i === 0 || /\s/.test(line[i - 1]))) || (ch === '/' && line[i + 1] === '/')) {
+      return line.slice(0, i);
+    }
+  }
+
+  return line;
+}
+
+/**
+ * Copy a state-keyed record with every key moved by `delta`
+ */
+function shiftKeys<T>(record: Record<number, T>, delta: number): Record<number, T> {
+  const shifted: Record<number, T> = {};
+  for (const [key, value] of Object.entries(record)) {
+    shifted[parseInt(key, 10) + delta] = value;
+  }
+  return shifted;
+}
+
+/**
+ * Find `token` in `text` where it is not part of a longer word or the target of a dotted pair
+ */
+function findToken(text: string, token: string, from = 0): number {
+  let idx = text.indexOf(token, from);
+  while (idx >= 0) {
+    const before = text[idx - 1] ?? '';
+    const after = text[idx + token.length] ?? '';
+    if (!/[\w.]/.test(before) && !/\w/.test(after)) return idx;
+    idx = text.indexOf(token, idx + 1);
+  }
+  return -1;
+}
+
+/**
+ * Header field a line assigns, lower-cased: 'Name = "x"' -> name. Rows such as
+ * "nameless: ..." or "mode_a: ..." are not fields, whatever they start with.
+ */
+function fieldName(line: string): string | null {
+  const match = line.match(/^(\w+)\s*=/);
+  if (!match) return null;
+  const field = match[1].toLowerCase();
+  return field === 'acceptstates' ? 'acceptstate' : field;
+}
+
+/**
+ * Strip one pair of matching surrounding quotes: 'a, b' -> a, b
+ */
+function unquote(text: string): string {
+  const match = text.match(/^(["'])(.*)\1$/s);
+  return match ? match[2] : text;
+}
+
 export class FSMParser {
   private static REQUIRED_FIELDS = ['name', 'states', 'symbols', 'transitions', 'startstate', 'acceptstate'];
+  // Fields that end a transitions block when a line assigns them
+  private static BLOCK_END_FIELDS = ['name', 'states', 'symbols', 'startstate', 'acceptstate', 'indexing', 'mode', 'outputs', ...METADATA_FIELDS];
   
   private data: {
     name: string | null;
@@ -33,12 +213,39 @@ export class FSMParser {
     symbols: string[] | null;
     transitions: Record<number, [string, string][]>;
     startstate: number | null;
-    acceptstate: number | null;
+    acceptstates: Set<number> | null;
     zeroIndexed: boolean;
+    indexingSource: IndexingSource;
+    namedStates: boolean;
+    stateNames: Record<number, string>;
+    stateIndex: Record<string, number>;
+    metadata: FSMMetadata;
+    mode: FSMMode;
+    transitionOutputs: Record<number, Record<string, string>>;
+    stateOutputs: Record<number, string>;
+  };
+
+  // State references exactly as written in the file, resolved to indices by resolveStateLabels()
+  private raw: {
+    stateNames: string[] | null;
+    rows: Record<string, [string, string][]>;
+    rowOrder: string[];
+    rowLines: Record<string, number>;
+    rowOutputs: Record<string, Record<string, string>>;
+    startstate: string | null;
+    acceptstates: string[] | null;
+    stateOutputs: [string, string][] | null;
   };
   
+  private declaredIndexing: 0 | 1 | null;
   private fieldsFound: Set<string>;
+  private fieldLines: Record<string, number>;
+  private stateLines: Record<number, number>;
   private currentLine: number;
+  private lines: string[];
+  private sourceLines: string[]; // lines as written, before comments are removed
+  private collectDiagnostics: boolean;
+  private diagnostics: FSMDiagnostic[];
 
   constructor() {
     this.data = {
@@ -47,20 +254,68 @@ export class FSMParser {
       symbols: null,
       transitions: {},
       startstate: null,
-      acceptstate: null,
+      acceptstates: null,
       zeroIndexed: false,
+      indexingSource: 'detected',
+      namedStates: false,
+      stateNames: {},
+      stateIndex: {},
+      metadata: {},
+      mode: 'dfa',
+      transitionOutputs: {},
+      stateOutputs: {},
+    };
+    this.raw = {
+      stateNames: null,
+      rows: {},
+      rowOrder: [],
+      rowLines: {},
+      rowOutputs: {},
+      startstate: null,
+      acceptstates: null,
+      stateOutputs: null,
     };
+    this.declaredIndexing = null;
     this.fieldsFound = new Set();
+    this.fieldLines = {};
+    this.stateLines = {};
     this.currentLine = 0;
+    this.lines = [];
+    this.sourceLines = [];
+    this.collectDiagnostics = false;
+    this.diagnostics = [];
   }
 
+  /**
+   * Parse and validate, throwing an FSMValidationError on the first error
+   */
   parse(fileContent: string): FSMData {
-    const lines = fileContent.split('\n');
+    this.collectDiagnostics = false;
+    return this.run(fileContent);
+  }
+
+  /**
+   * Parse and validate, collecting every error and warning instead of stopping at the first
+   */
+  parseWithDiagnostics(fileContent: string): FSMParseResult {
+    this.collectDiagnostics = true;
+    const fsm = this.run(fileContent);
+    const hasErrors = this.diagnostics.some(d => d.severity === 'error');
+    return { fsm: hasErrors ? null : fsm, diagnostics: this.diagnostics };
+  }
+
+  private run(fileContent: string): FSMData {
+    this.sourceLines = fileContent.split('\n');
+    const lines = this.sourceLines.map(stripComment);
+    this.lines = lines;
     
     this.checkRequiredFields(lines);
     this.parseFields(lines);
+    this.validateSymbols();
+    this.resolveStateLabels();
     this.detectAndNormalizeIndexingScheme();
     this.validateRules();
+    this.buildStateTable();
     
     return this.data as FSMData;
   }
@@ -76,8 +331,65 @@ export class FSMParser {
     }
     
     if (missingFields.length > 0) {
-      throw new FSMValidationError(0, `Missing required fields: ${missingFields.join(', ')}`);
+      this.error('missing-field', `Missing required fields: ${missingFields.join(', ')}`, 0);
+    }
+  }
+
+  /**
+   * Record a problem. Errors throw unless diagnostics are being collected.
+   * When `needle` is given the range is narrowed to its first whole-token occurrence
+   * on the line at or after `searchFrom`.
+   */
+  private report(
+    severity: FSMDiagnosticSeverity,
+    code: string,
+    message: string,
+    line: number,
+    needle?: string,
+    searchFrom = 0
+  ): void {
+    if (severity === 'error' && !this.collectDiagnostics) {
+      throw new FSMValidationError(line, message, code);
+    }
+    if (this.diagnostics.some(d => d.code === code && d.message === message && d.line === line)) {
+      return;
     }
+
+    const text = line > 0 ? this.lines[line - 1] ?? '' : '';
+    let column = text.length - text.trimStart().length + 1;
+    let endColumn = text.trimEnd().length + 1;
+    if (needle) {
+      const idx = findToken(text, needle, searchFrom);
+      if (idx >= 0) {
+        column = idx + 1;
+        endColumn = idx + needle.length + 1;
+      }
+    }
+    if (line === 0) {
+      column = 0;
+      endColumn = 0;
+    }
+
+    this.diagnostics.push({ severity, code, message, line, column, endLine: line, endColumn });
+  }
+
+  private error(code: string, message: string, line: number = this.currentLine, needle?: string, searchFrom?: number): void {
+    this.report('error', code, message, line, needle, searchFrom);
+  }
+
+  private warn(code: string, message: string, line: number = this.currentLine, needle?: string): void {
+    this.report('warning', code, message, line, needle);
+  }
+
+  /**
+   * Hint for a line cut short by a # comment, which is how an unquoted # symbol after a space reads
+   */
+  private commentHint(line: number): string {
+    const source = this.sourceLines[line - 1] ?? '';
+    const comment = source.slice(stripComment(source).length);
+    return comment.startsWith('#')
+      ? `. '#' after a space starts a comment; quote it to use it as a symbol, e.g. 0.1, '#'.2`
+      : '';
   }
 
   private parseFields(lines: string[]): void {
@@ -91,20 +403,39 @@ export class FSMParser {
         continue;
       }
       
-      const lineLower = line.toLowerCase();
+      const field = fieldName(line);
       
-      if (lineLower.startsWith('name')) {
+      if (field === 'name') {
+        this.fieldLines.name = this.currentLine;
         this.parseName(line);
-      } else if (lineLower.startsWith('states')) {
+      } else if (field === 'states') {
+        this.fieldLines.states = this.currentLine;
         this.parseStates(line);
-      } else if (lineLower.startsWith('symbols')) {
+      } else if (field === 'symbols') {
+        this.fieldLines.symbols = this.currentLine;
         this.parseSymbols(line);
-      } else if (lineLower.startsWith('transitions')) {
+      } else if (field === 'transitions') {
+        this.fieldLines.transitions = this.currentLine;
         i = this.parseTransitions(lines, i);
-      } else if (lineLower.startsWith('startstate')) {
+      } else if (field === 'startstate') {
+        this.fieldLines.startstate = this.currentLine;
         this.parseStartState(line);
-      } else if (lineLower.startsWith('acceptstate')) {
+      } else if (field === 'acceptstate') {
+        this.fieldLines.acceptstate = this.currentLine;
         this.parseAcceptState(line);
+      } else if (field === 'indexing') {
+        this.fieldLines.indexing = this.currentLine;
+        this.parseIndexing(line);
+      } else if (field === 'mode') {
+        this.fieldLines.mode = this.currentLine;
+        this.parseMode(line);
+      } else if (field === 'outputs') {
+        this.fieldLines.outputs = this.currentLine;
+        this.parseStateOutputs(line);
+      } else if ((METADATA_FIELDS as readonly string[]).includes(field)) {
+        this.parseMetadata(line);
+      } else {
+        this.warn('unrecognized-line', `Ignoring unrecognized line: '${line}'`);
       }
       
       i++;
@@ -112,30 +443,72 @@ export class FSMParser {
   }
 
   private parseName(line: string): void {
-    const match = line.match(/name\s*=\s*["'](.+?)["']/i);
+    // The closing quote must match the opening one, so Name = "it's" keeps its apostrophe
+    const match = line.match(/name\s*=\s*(["'])(.+?)\1/i);
     if (!match) {
-      throw new FSMValidationError(this.currentLine, 'Name must be in format: Name = "value"');
+      this.error('invalid-name', 'Name must be in format: Name = "value"');
+      return;
     }
-    this.data.name = match[1];
+    this.data.name = match[2];
     this.fieldsFound.add('name');
   }
 
+  /**
+   * States may be a count (states = 4) or a list of names (states = {even, odd})
+   */
   private parseStates(line: string): void {
+    const setMatch = line.match(/states\s*=\s*\{([^}]*)\}/i);
+    if (setMatch) {
+      const names = setMatch[1].split(',').map(s => s.trim()).filter(s => s.length > 0);
+      if (names.length === 0 || names.some(s => !STATE_LABEL.test(s))) {
+        this.error('invalid-states', 'State names must be letters, digits or underscores, e.g. states = {even, odd}');
+        return;
+      }
+      const duplicate = names.find((s, idx) => names.indexOf(s) !== idx);
+      if (duplicate) {
+        this.error('duplicate-state', `State '${duplicate}' is declared more than once`);
+        return;
+      }
+      this.raw.stateNames = names;
+      this.data.states = names.length;
+      this.fieldsFound.add('states');
+      return;
+    }
+
     const match = line.match(/states\s*=\s*["']?(\d+)["']?/i);
     if (!match) {
-      throw new FSMValidationError(this.currentLine, 'States must be an integer');
+      this.error('invalid-states', 'States must be an integer or a set of state names');
+      return;
     }
     this.data.states = parseInt(match[1], 10);
     this.fieldsFound.add('states');
   }
 
+  /**
+   * Symbols may be any text; quote them to include commas or spaces: symbols = {a, "x, y", 'b c'}
+   */
   private parseSymbols(line: string): void {
-    const match = line.match(/symbols\s*=\s*\{(.+?)\}/i);
+    const match = line.match(/symbols\s*=\s*\{(.*)\}/i);
+    if (!match && /symbols\s*=\s*\{.*\}/i.test(this.sourceLines[this.currentLine - 1] ?? '')) {
+      // The set was cut short by a # after a space, as in symbols = {a, #}
+      this.error('invalid-symbols', `'#' after a space starts a comment; quote it to use it as a symbol, e.g. symbols = {a, '#'}`);
+      return;
+    }
     if (!match) {
-      throw new FSMValidationError(this.currentLine, 'Symbols must be in format: symbols = {0, 1}');
+      this.error('invalid-symbols', 'Symbols must be in format: symbols = {0, 1}');
+      return;
     }
-    const symbolsStr = match[1];
-    this.data.symbols = symbolsStr.split(',').map(s => s.trim());
+    const symbols = splitOutsideQuotes(match[1], ',').map(s => unquote(s.trim()));
+    if (symbols.some(s => s.length === 0)) {
+      this.error('invalid-symbols', 'Symbols must not be empty');
+      return;
+    }
+    const duplicate = symbols.find((s, idx) => symbols.indexOf(s) !== idx);
+    if (duplicate !== undefined) {
+      this.error('duplicate-symbol', `Symbol '${duplicate}' is declared more than once`, this.currentLine, duplicate);
+      return;
+    }
+    this.data.symbols = symbols;
     this.fieldsFound.add('symbols');
   }
 
@@ -150,13 +523,20 @@ export class FSMParser {
     }
     
     // Check if the first transition is on the same line as "transitions ="
-    const inlineMatch = firstLine.match(/transitions\s*=\s*(\d+[:\.]?\s*.+)/i);
+    const inlineMatch = firstLine.match(/transitions\s*=\s*(\w+[:.]?\s*.+)/i);
     
     let i = startIdx;
     if (inlineMatch) {
       // Parse inline transition on same line as "transitions ="
       this.currentLine = startIdx + 1;
       this.parseTransitionLine(inlineMatch[1]);
+    } else {
+      // JSON-like block whose opening brace is on a later line: transitions =\n{
+      let next = startIdx + 1;
+      while (next < lines.length && !lines[next].trim()) next++;
+      if (next < lines.length && lines[next].trim() === '{') {
+        return this.parseJsonTransitions(lines, next);
+      }
     }
     
     i = startIdx + 1;
@@ -170,8 +550,7 @@ export class FSMParser {
         continue;
       }
       
-      const lineLower = line.toLowerCase();
-      if (['name', 'states', 'symbols', 'startstate', 'acceptstate'].some(field => lineLower.startsWith(field))) {
+      if (FSMParser.BLOCK_END_FIELDS.includes(fieldName(line))) {
         return i - 1;
       }
       
@@ -183,7 +562,7 @@ export class FSMParser {
   }
 
   private parseJsonTransitions(lines: string[], startIdx: number): number {
-    let i = startIdx;
+    let i = startIdx + 1;
     
     while (i < lines.length) {
       const line = lines[i].trim();
@@ -196,34 +575,39 @@ export class FSMParser {
       }
       
       // Check for closing brace - end of transitions block
-      if (line === '}') {
+      if (/^\}\s*,?$/.test(line)) {
         return i;
       }
       
       // Check for other fields (end of transitions)
-      const lineLower = line.toLowerCase();
-      if (['name', 'states', 'symbols', 'startstate', 'acceptstate'].some(field => lineLower.startsWith(field))) {
+      if (FSMParser.BLOCK_END_FIELDS.includes(fieldName(line))) {
         return i - 1;
       }
       
-      // Parse JSON-like transition: 1: { "0": 1, "1": 2 },
-      const jsonMatch = line.match(/(\d+)\s*:\s*\{([^}]+)\}/);
+      // Parse JSON-like transition: 1: { "0": 1, "1": 2 }, or even: { "0": even, "1": odd },
+      const jsonMatch = line.match(/(\w+)\s*:\s*\{(.+)\}/);
       if (jsonMatch) {
-        const state = parseInt(jsonMatch[1], 10);
+        const state = jsonMatch[1];
         const transitionsStr = jsonMatch[2];
         
         const transitions: [string, string][] = [];
-        // Match "symbol": target pairs
-        const pairPattern = /["'](\d+)["']\s*:\s*(\d+)/g;
-        let pairMatch;
-        
-        while ((pairMatch = pairPattern.exec(transitionsStr)) !== null) {
-          transitions.push([pairMatch[1], pairMatch[2]]);
+        const outputs: Record<string, string> = {};
+        // Match "symbol": target pairs, where target may be quoted, with an optional output: "1": 2 / "0"
+        for (const pair of splitOutsideQuotes(transitionsStr, ',')) {
+          const pairMatch = pair.trim().match(/^("[^"]*"|'[^']*'|[^\s:]+)\s*:\s*["']?(\w+)["']?(?:\s*\/\s*("[^"]*"|'[^']*'|\S+))?$/);
+          if (pairMatch) {
+            transitions.push([unquote(pairMatch[1]), pairMatch[2]]);
+            if (pairMatch[3] !== undefined) outputs[unquote(pairMatch[1])] = unquote(pairMatch[3]);
+          } else if (pair.trim()) {
+            this.error('invalid-transition', `Invalid transition '${pair.trim()}', expected "symbol": target`, this.currentLine, pair.trim());
+          }
         }
         
         if (transitions.length > 0) {
-          this.data.transitions[state] = transitions;
+          this.addRow(state, transitions, outputs);
         }
+      } else {
+        this.warn('unrecognized-line', `Ignoring unrecognized line in transitions block: '${line}'`);
       }
       
       i++;
@@ -233,75 +617,314 @@ export class FSMParser {
   }
 
   private parseTransitionLine(line: string): void {
-    // Match state number at start: "1: ..." or "1. ..."
-    const match = line.match(/(\d+)[:\.]?\s*(.+)/);
+    // Match state label at start: "1: ...", "1. ..." or "even: ..."
+    const match = line.match(/^(\w+)\s*[:.]?\s*(.+)/);
     if (!match) {
-      throw new FSMValidationError(this.currentLine, `Invalid transition format: '${line}'`);
+      this.error('invalid-transition', `Invalid transition format: '${line}'`);
+      return;
     }
     
-    const state = parseInt(match[1], 10);
+    const state = match[1];
     const transitionsStr = match[2];
     
     const transitions: [string, string][] = [];
+    const outputs: Record<string, string> = {};
     
     // Try new format first: on '0' move '1', on '1' move '2'
     // Pattern: on 'symbol' move 'target' (case-insensitive, handles typos like "mocve")
     // Also handles period after symbol quote like: on '1'. Move '1'
-    const newFormatPattern = /on\s*['"](\d+)['"]\.?\s*m\w*\s*['"](\d+)['"]\.?/gi;
+    // An output may follow the target: on '1' move '2' emit '0'
+    const newFormatPattern = /on\s*(['"])(.*?)\1\.?\s*m\w*\s*['"](\w+)['"]\.?(?:\s*emit\s*(['"])(.*?)\4\.?)?/gi;
     let newFormatMatch;
     
     while ((newFormatMatch = newFormatPattern.exec(transitionsStr)) !== null) {
-      const symbol = newFormatMatch[1];
-      const target = newFormatMatch[2];
+      const symbol = newFormatMatch[2];
+      const target = newFormatMatch[3];
       transitions.push([symbol, target]);
+      if (newFormatMatch[5] !== undefined) outputs[symbol] = newFormatMatch[5];
     }
     
-    // If new format didn't match, try old format: 0.1, 1.2
+    // If new format didn't match, try old format: 0.1, 1.2 (or a.even, 'x, y'.odd)
+    // The target follows the last '.', so symbols may themselves contain dots
+    // An output may follow the target after a slash: 1.2/0
     if (transitions.length === 0) {
-      for (const trans of transitionsStr.split(',')) {
-        const trimmed = trans.trim();
-        if (trimmed.includes('.')) {
-          const parts = trimmed.split('.');
-          if (parts.length === 2 && /^\d+$/.test(parts[0].trim()) && /^\d+$/.test(parts[1].trim())) {
-            transitions.push([parts[0].trim(), parts[1].trim()]);
+      for (const trans of splitOutsideQuotes(transitionsStr, ',')) {
+        let trimmed = trans.trim();
+        let output: string | undefined;
+        const slash = lastIndexOutsideQuotes(trimmed, '/');
+        if (slash > 0 && /\.\w+\s*$/.test(trimmed.slice(0, slash))) {
+          output = unquote(trimmed.slice(slash + 1).trim());
+          trimmed = trimmed.slice(0, slash).trim();
+        }
+        const dot = trimmed.lastIndexOf('.');
+        if (dot > 0) {
+          const symbol = unquote(trimmed.slice(0, dot).trim());
+          const target = trimmed.slice(dot + 1).trim();
+          if (symbol.length > 0 && STATE_LABEL.test(target)) {
+            transitions.push([symbol, target]);
+            if (output !== undefined) outputs[symbol] = output;
           }
         }
       }
     }
     
     if (transitions.length === 0) {
-      throw new FSMValidationError(this.currentLine, `No valid transitions found in: '${line}'`);
+      this.error('invalid-transition', `No valid transitions found in: '${line}'${this.commentHint(this.currentLine)}`);
+      return;
     }
     
-    this.data.transitions[state] = transitions;
+    this.addRow(state, transitions, outputs);
+  }
+
+  private addRow(state: string, transitions: [string, string][], outputs: Record<string, string> = {}): void {
+    if (!(state in this.raw.rows)) {
+      this.raw.rowOrder.push(state);
+    } else {
+      this.warn('duplicate-row', `State ${state} is defined more than once (previously on line ${this.raw.rowLines[state]}); using this definition`);
+    }
+    this.raw.rows[state] = transitions;
+    this.raw.rowLines[state] = this.currentLine;
+    this.raw.rowOutputs[state] = outputs;
   }
 
   private parseStartState(line: string): void {
-    const match = line.match(/startstate\s*=\s*(\d+)/i);
+    const match = line.match(/startstate\s*=\s*["']?(\w+)["']?/i);
     if (!match) {
-      throw new FSMValidationError(this.currentLine, 'Start state must be an integer');
+      this.error('invalid-start', 'Start state must be an integer or a state name');
+      return;
     }
-    this.data.startstate = parseInt(match[1], 10);
+    this.raw.startstate = match[1];
     this.fieldsFound.add('startstate');
   }
 
+  /**
+   * Accept states may be a single state (acceptstate = 1)
+   * or a set of states (acceptstate = {1, 3} or acceptstate = {even}).
+   * The set may be empty: acceptstate = {} describes a machine that accepts nothing.
+   */
   private parseAcceptState(line: string): void {
-    const match = line.match(/acceptstate\s*=\s*(\d+)/i);
+    const setMatch = line.match(/acceptstates?\s*=\s*\{([^}]*)\}/i);
+    if (setMatch) {
+      const entries = setMatch[1].split(',').map(s => s.trim().replace(/^["']|["']$/g, '')).filter(s => s.length > 0);
+      if (entries.some(s => !STATE_LABEL.test(s))) {
+        this.error('invalid-accept', 'Accept states must be a set of states, e.g. acceptstate = {1, 3}');
+        return;
+      }
+      this.raw.acceptstates = entries;
+      this.fieldsFound.add('acceptstate');
+      return;
+    }
+
+    const match = line.match(/acceptstates?\s*=\s*["']?(\w+)["']?/i);
     if (!match) {
-      throw new FSMValidationError(this.currentLine, 'Accept state must be an integer');
+      this.error('invalid-accept', 'Accept state must be a state or a set of states');
+      return;
     }
-    this.data.acceptstate = parseInt(match[1], 10);
+    this.raw.acceptstates = [match[1]];
     this.fieldsFound.add('acceptstate');
   }
 
+  /**
+   * Metadata values may be quoted or run to the end of the line: author = "Ada" or version = 1.2
+   */
+  private parseMetadata(line: string): void {
+    const match = line.match(/^(\w+)\s*=\s*(.*)$/);
+    const field = match?.[1].toLowerCase() as FSMMetadataField | undefined;
+    if (!match || !METADATA_FIELDS.includes(field)) {
+      this.warn('unrecognized-line', `Ignoring unrecognized line: '${line}'`);
+      return;
+    }
+    this.data.metadata[field] = unquote(match[2].trim());
+  }
+
+  /**
+   * Optional header that fixes the indexing scheme: indexing = 0 or indexing = 1
+   */
+  private parseIndexing(line: string): void {
+    const match = line.match(/indexing\s*=\s*["']?([01])["']?\s*$/i);
+    if (!match) {
+      this.error('invalid-indexing', 'Indexing must be 0 or 1, e.g. indexing = 0');
+      return;
+    }
+    this.declaredIndexing = match[1] === '0' ? 0 : 1;
+  }
+
+  /**
+   * Optional header selecting the kind of machine: mode = dfa (default), partial or nfa
+   */
+  private parseMode(line: string): void {
+    const match = line.match(/mode\s*=\s*["']?(dfa|partial|nfa)["']?\s*$/i);
+    if (!match) {
+      this.error('invalid-mode', 'Mode must be dfa, partial or nfa, e.g. mode = nfa');
+      return;
+    }
+    this.data.mode = match[1].toLowerCase() as FSMMode;
+  }
+
+  /**
+   * Moore outputs, one per state: outputs = {1: 0, 2: 1} or outputs = {even: "0", odd: '1'}
+   */
+  private parseStateOutputs(line: string): void {
+    const match = line.match(/outputs\s*=\s*\{(.*)\}/i);
+    if (!match) {
+      this.error('invalid-output', 'State outputs must be in format: outputs = {1: 0, 2: 1}');
+      return;
+    }
+    const entries: [string, string][] = [];
+    for (const entry of splitOutsideQuotes(match[1], ',')) {
+      if (!entry.trim()) continue;
+      const entryMatch = entry.trim().match(/^(\w+)\s*:\s*(.+)$/);
+      if (!entryMatch) {
+        this.error('invalid-output', `Invalid state output '${entry.trim()}', expected state: output`, this.currentLine, entry.trim());
+        return;
+      }
+      entries.push([entryMatch[1], unquote(entryMatch[2].trim())]);
+    }
+    this.raw.stateOutputs = entries;
+  }
+
+  /**
+   * Check every transition symbol against the declared alphabet.
+   * Runs after all fields are read because symbols may be declared after transitions.
+   * In NFA mode ε transitions (written ε, eps or epsilon) are allowed and stored as EPSILON.
+   */
+  private validateSymbols(): void {
+    if (this.data.symbols === null) return;
+
+    const alphabet = new Set(this.data.symbols);
+    const nfa = this.data.mode === 'nfa';
+    for (const state of this.raw.rowOrder) {
+      const line = this.raw.rowLines[state];
+      // Skip past the row label so a symbol equal to the label is located in the transitions
+      const text = this.lines[line - 1] ?? '';
+      const labelEnd = text.indexOf(state) + state.length;
+      for (const transition of this.raw.rows[state]) {
+        const symbol = transition[0];
+        if (alphabet.has(symbol)) continue;
+        if (nfa && EPSILON_ALIASES.includes(symbol.toLowerCase())) {
+          transition[0] = EPSILON;
+          continue;
+        }
+        const hint = EPSILON_ALIASES.includes(symbol.toLowerCase()) ? ". ε transitions need 'mode = nfa'" : '';
+        this.error('unknown-symbol',
+          `State ${state}: symbol '${symbol}' is not in the declared alphabet {${this.data.symbols.join(', ')}}${hint}`,
+          line, symbol, labelEnd
+        );
+      }
+    }
+  }
+
+  /**
+   * Map the state labels written in the file to numeric indices.
+   * Integer labels are used as-is; as soon as any label is a name, every state
+   * is treated as a name and numbered 1..N (0..N-1 with indexing = 0) in
+   * declaration order (the states = {...} list if given, otherwise the order
+   * of the transition rows).
+   */
+  private resolveStateLabels(): void {
+    const labels = [
+      ...this.raw.rowOrder,
+      ...Object.values(this.raw.rows).flatMap(transitions => transitions.map(([, target]) => target)),
+      ...(this.raw.startstate !== null ? [this.raw.startstate] : []),
+      ...(this.raw.acceptstates ?? []),
+      ...(this.raw.stateOutputs ?? []).map(([label]) => label),
+    ];
+    const named = this.raw.stateNames !== null || labels.some(label => !NUMERIC_LABEL.test(label));
+    this.data.namedStates = named;
+
+    if (!named) {
+      for (const label of this.raw.rowOrder) {
+        this.data.transitions[parseInt(label, 10)] = this.raw.rows[label];
+        this.stateLines[parseInt(label, 10)] = this.raw.rowLines[label];
+        if (Object.keys(this.raw.rowOutputs[label]).length > 0) {
+          this.data.transitionOutputs[parseInt(label, 10)] = this.raw.rowOutputs[label];
+        }
+      }
+      if (this.raw.startstate !== null) this.data.startstate = parseInt(this.raw.startstate, 10);
+      if (this.raw.acceptstates !== null) {
+        this.data.acceptstates = new Set(this.raw.acceptstates.map(s => parseInt(s, 10)));
+      }
+      for (const [label, output] of this.raw.stateOutputs ?? []) {
+        this.data.stateOutputs[parseInt(label, 10)] = output;
+      }
+      return;
+    }
+
+    const order = this.raw.stateNames ?? this.raw.rowOrder;
+    const base = this.declaredIndexing ?? 1;
+    const index: Record<string, number> = {};
+    order.forEach((name, i) => {
+      index[name] = base + i;
+    });
+    const lookup = (label: string, context: string, line: number): number | null => {
+      if (!(label in index)) {
+        this.error('unknown-state', `${context} refers to unknown state '${label}'. Known states: ${order.join(', ')}`, line, label);
+        return null;
+      }
+      return index[label];
+    };
+
+    if (this.raw.stateNames === null && this.data.states !== null && this.data.states !== order.length) {
+      this.error('state-count',
+        `States declares ${this.data.states} states but transitions define ${order.length} (${order.join(', ')})`,
+        this.fieldLines.states ?? 0
+      );
+    }
+
+    for (const label of this.raw.rowOrder) {
+      const line = this.raw.rowLines[label];
+      const from = lookup(label, 'Transition row', line);
+      if (from === null) continue;
+
+      const transitions: [string, string][] = [];
+      for (const [symbol, target] of this.raw.rows[label]) {
+        const to = lookup(target, `State ${label}: transition on '${symbol}'`, line);
+        if (to !== null) transitions.push([symbol, String(to)]);
+      }
+      this.data.transitions[from] = transitions;
+      this.stateLines[from] = line;
+      if (Object.keys(this.raw.rowOutputs[label]).length > 0) {
+        this.data.transitionOutputs[from] = this.raw.rowOutputs[label];
+      }
+    }
+    if (this.raw.startstate !== null) {
+      this.data.startstate = lookup(this.raw.startstate, 'Start state', this.fieldLines.startstate ?? 0);
+    }
+    if (this.raw.acceptstates !== null) {
+      const accepts = this.raw.acceptstates.map(s => lookup(s, 'Accept state', this.fieldLines.acceptstate ?? 0));
+      this.data.acceptstates = new Set(accepts.filter((s): s is number => s !== null));
+    }
+    for (const [label, output] of this.raw.stateOutputs ?? []) {
+      const state = lookup(label, 'State output', this.fieldLines.outputs ?? 0);
+      if (state !== null) this.data.stateOutputs[state] = output;
+    }
+    this.data.states = order.length;
+    this.data.stateIndex = index;
+    this.data.zeroIndexed = base === 0;
+  }
+
   /**
    * Detect indexing scheme and normalize a common "shifted" format:
    * - states is a COUNT (N)
    * - transition rows are labeled 1..N
    * - but transition targets are 0..N-1
    * In that case we normalize row labels (and start/accept) by -1 and treat as 0-based.
+   * An `indexing = 0|1` header or named states skip detection entirely.
+   * Normalizing, or settling on a scheme the rows don't clearly fit, emits a warning.
    */
   private detectAndNormalizeIndexingScheme(): void {
+    if (this.declaredIndexing !== null) {
+      this.data.zeroIndexed = this.declaredIndexing === 0;
+      this.data.indexingSource = 'declared';
+      return;
+    }
+    if (this.data.namedStates) {
+      this.data.zeroIndexed = false;
+      this.data.indexingSource = 'named';
+      return;
+    }
+
+    this.data.indexingSource = 'detected';
     const transitionStates = Object.keys(this.data.transitions).map(k => parseInt(k, 10));
     if (transitionStates.length === 0) {
       this.data.zeroIndexed = false;
@@ -326,6 +949,7 @@ export class FSMParser {
     // Case A: explicit 0-based (row 0 exists)
     if (transitionStates.includes(0)) {
       this.data.zeroIndexed = true;
+      this.warnIfGuessed(transitionStates, minTo, maxTo);
       return;
     }
 
@@ -339,28 +963,70 @@ export class FSMParser {
 
     if (looksShifted) {
       const normalized: Record<number, [string, string][]> = {};
+      const normalizedLines: Record<number, number> = {};
       for (const [fromStr, transitions] of Object.entries(this.data.transitions)) {
         const from = parseInt(fromStr, 10);
         normalized[from - 1] = transitions;
+        normalizedLines[from - 1] = this.stateLines[from];
       }
       this.data.transitions = normalized;
+      this.stateLines = normalizedLines;
+      this.data.transitionOutputs = shiftKeys(this.data.transitionOutputs, -1);
+      this.data.stateOutputs = shiftKeys(this.data.stateOutputs, -1);
       // Start/accept were authored in the same label space as the row labels
       if (this.data.startstate !== null) this.data.startstate = this.data.startstate - 1;
-      if (this.data.acceptstate !== null) this.data.acceptstate = this.data.acceptstate - 1;
+      if (this.data.acceptstates !== null) {
+        this.data.acceptstates = new Set([...this.data.acceptstates].map(s => s - 1));
+      }
       this.data.zeroIndexed = true;
+      this.data.indexingSource = 'normalized';
+      this.warn('indexing-normalized',
+        `Rows are numbered 1..${numStates} but targets use 0..${numStates - 1}; ` +
+        `renumbered rows, start and accept states to 0-based. Add 'indexing = 0' or 'indexing = 1' to make this explicit`,
+        this.fieldLines.transitions ?? 0
+      );
       return;
     }
 
     // Default: 1-based
     this.data.zeroIndexed = false;
+    this.warnIfGuessed(transitionStates, minTo, maxTo);
+  }
+
+  /**
+   * Warn when the rows and targets don't exactly fit the detected scheme, i.e. the choice was a guess
+   */
+  private warnIfGuessed(transitionStates: number[], minTo: number, maxTo: number): void {
+    const numStates = this.data.states ?? 0;
+    const min = this.data.zeroIndexed ? 0 : 1;
+    const max = min + numStates - 1;
+    // Partial and NFA rows are optional, so only their range matters
+    const rowsFit = (this.data.mode !== 'dfa' || transitionStates.length === numStates) &&
+      transitionStates.every(s => s >= min && s <= max);
+    const targetsFit = minTo >= min && maxTo <= max;
+
+    if (!rowsFit || !targetsFit) {
+      this.warn('indexing-guessed',
+        `Could not determine the indexing scheme unambiguously; assuming ${this.data.zeroIndexed ? '0-based' : '1-based'}. ` +
+        `Add 'indexing = 0' or 'indexing = 1' to make it explicit`,
+        this.fieldLines.transitions ?? 0
+      );
+    }
   }
 
   private validateRules(): void {
     const missing = FSMParser.REQUIRED_FIELDS.filter(field => !this.fieldsFound.has(field));
     if (missing.length > 0) {
-      throw new FSMValidationError(0, `Missing required fields: ${missing.join(', ')}`);
+      // Fields that were written but failed to parse have already been reported on their own line
+      const unwritten = missing.filter(field => !(field in this.fieldLines));
+      if (unwritten.length > 0) {
+        this.error('missing-field', `Missing required fields: ${unwritten.join(', ')}`, 0);
+      }
+      // Without every field the remaining rules cannot be checked meaningfully
+      return;
     }
     
+    const transitionsLine = this.fieldLines.transitions ?? 0;
     const numStates = this.data.states!;
     const transitionStates = Object.keys(this.data.transitions).map(k => parseInt(k, 10));
     const numTransitions = transitionStates.length;
@@ -372,18 +1038,36 @@ export class FSMParser {
       : Array.from({ length: numStates }, (_, i) => i + 1); // 1..states
     
     const expectedCount = expectedStates.length;
+    const complete = this.data.mode === 'dfa';
     
-    if (numTransitions !== expectedCount) {
-      throw new FSMValidationError(0, 
+    if (!complete) {
+      // Partial and NFA states may have no outgoing transitions, so rows are optional but must name real states
+      for (const stateNum of transitionStates) {
+        if (!expectedStates.includes(stateNum)) {
+          this.error('unknown-state',
+            `Transition row ${stateNum} is not a state. Expected states: ${expectedStates.map(s => this.describeState(s)).join(', ')}`,
+            this.stateLines[stateNum] ?? transitionsLine
+          );
+        }
+      }
+      for (const stateNum of expectedStates) {
+        this.data.transitions[stateNum] ??= [];
+      }
+    } else if (numTransitions !== expectedCount) {
+      this.error('transition-count',
         `Number of transitions (${numTransitions}) must equal number of states (${expectedCount}). ` +
-        `Using ${zeroIndexed ? '0-based' : '1-based'} indexing. Expected states: ${expectedStates.join(', ')}`
+        `Using ${zeroIndexed ? '0-based' : '1-based'} indexing. Expected states: ${expectedStates.map(s => this.describeState(s)).join(', ')}`,
+        transitionsLine
       );
     }
     
     // Check all expected states have transitions
     for (const stateNum of expectedStates) {
-      if (!(stateNum in this.data.transitions)) {
-        throw new FSMValidationError(0, `State ${stateNum} has no transitions defined`);
+      if (complete && !(stateNum in this.data.transitions)) {
+        this.error('missing-row',
+          `State ${this.describeState(stateNum)} has no transitions defined. Add 'mode = partial' to allow missing transitions`,
+          transitionsLine
+        );
       }
     }
     
@@ -391,23 +1075,60 @@ export class FSMParser {
     const minState = zeroIndexed ? 0 : 1;
     const maxState = zeroIndexed ? numStates - 1 : numStates;
     
-    if (this.data.startstate! < minState || this.data.startstate! > maxState) {
-      throw new FSMValidationError(0, 
-        `Start state ${this.data.startstate} is invalid. Must be between ${minState} and ${maxState}`
+    const startstate = this.data.startstate;
+    if (startstate !== null && (startstate < minState || startstate > maxState)) {
+      this.error('invalid-start',
+        `Start state ${startstate} is invalid. Must be between ${minState} and ${maxState}`,
+        this.fieldLines.startstate ?? 0
       );
     }
     
-    if (this.data.acceptstate! < minState || this.data.acceptstate! > maxState) {
-      throw new FSMValidationError(0, 
-        `Accept state ${this.data.acceptstate} is invalid. Must be between ${minState} and ${maxState}`
-      );
+    for (const acceptState of this.data.acceptstates ?? []) {
+      if (acceptState < minState || acceptState > maxState) {
+        this.error('invalid-accept',
+          `Accept state ${acceptState} is invalid. Must be between ${minState} and ${maxState}`,
+          this.fieldLines.acceptstate ?? 0
+        );
+      }
     }
     
     // Validate each state has correct number of transitions (one per symbol)
     const numSymbols = this.data.symbols!.length;
     for (const [state, transitions] of Object.entries(this.data.transitions)) {
-      if (transitions.length !== numSymbols) {
-        throw new FSMValidationError(0, `State ${state} has ${transitions.length} transitions but ${numSymbols} symbols defined`);
+      if (this.data.mode === 'nfa') continue;
+      const rowSymbols = transitions.map(([symbol]) => symbol);
+      const repeated = rowSymbols.find((symbol, idx) => rowSymbols.indexOf(symbol) !== idx);
+      if (repeated !== undefined) {
+        this.error('nondeterministic',
+          `State ${this.describeState(parseInt(state, 10))} has more than one transition on '${repeated}'. ` +
+          `Add 'mode = nfa' for nondeterministic machines`,
+          this.stateLines[state] ?? transitionsLine
+        );
+      } else if (complete && transitions.length !== numSymbols) {
+        const line = this.stateLines[state] ?? transitionsLine;
+        const hint = transitions.length < numSymbols
+          ? this.commentHint(line) || ". Add 'mode = partial' to allow missing transitions"
+          : '';
+        this.error('transition-count',
+          `State ${this.describeState(parseInt(state, 10))} has ${transitions.length} transitions but ${numSymbols} symbols defined${hint}`,
+          line
+        );
+      }
+    }
+    
+    // Outputs follow a single path, and Moore outputs must name real states
+    const hasAnyOutputs = Object.keys(this.data.transitionOutputs).length > 0 || Object.keys(this.data.stateOutputs).length > 0;
+    if (this.data.mode === 'nfa' && hasAnyOutputs) {
+      this.error('invalid-output', 'Outputs (emit or outputs = {...}) need a deterministic machine; remove them or the nfa mode',
+        this.fieldLines.outputs ?? transitionsLine
+      );
+    }
+    for (const state of Object.keys(this.data.stateOutputs).map(k => parseInt(k, 10))) {
+      if (state < minState || state > maxState) {
+        this.error('invalid-output',
+          `State output for ${state} is invalid. Must be between ${minState} and ${maxState}`,
+          this.fieldLines.outputs ?? 0
+        );
       }
     }
     
@@ -416,24 +1137,160 @@ export class FSMParser {
       for (const [symbol, targetStr] of transitions) {
         const target = parseInt(targetStr, 10);
         if (target < minState || target > maxState) {
-          throw new FSMValidationError(0, 
-            `State ${state}: transition on '${symbol}' goes to invalid state ${target}. Must be between ${minState} and ${maxState}`
+          this.error('invalid-target',
+            `State ${state}: transition on '${symbol}' goes to invalid state ${target}. Must be between ${minState} and ${maxState}`,
+            this.stateLines[state] ?? transitionsLine
           );
         }
       }
     }
   }
+
+  /**
+   * Name used for a state in error messages: the written name for named machines
+   */
+  private describeState(state: number): string {
+    if (!this.data.namedStates) return String(state);
+    const name = Object.keys(this.data.stateIndex).find(key => this.data.stateIndex[key] === state);
+    return name ?? String(state);
+  }
+
+  /**
+   * Fill the name <-> index table. Numeric machines use their indices as names.
+   */
+  private buildStateTable(): void {
+    if (this.data.namedStates) {
+      for (const [name, idx] of Object.entries(this.data.stateIndex)) {
+        this.data.stateNames[idx] = name;
+      }
+      return;
+    }
+
+    const names: Record<number, string> = {};
+    const index: Record<string, number> = {};
+    for (const state of getStateIds(this.data as FSMData)) {
+      names[state] = String(state);
+      index[String(state)] = state;
+    }
+    this.data.stateNames = names;
+    this.data.stateIndex = index;
+  }
+}
+
+/**
+ * List the state indices of an FSM in order (0..N-1 or 1..N depending on indexing)
+ */
+export function getStateIds(fsm: FSMData): number[] {
+  const start = fsm.zeroIndexed ? 0 : 1;
+  return Array.from({ length: fsm.states }, (_, i) => start + i);
+}
+
+/**
+ * Display label for a state: its name for named machines, otherwise q<index>
+ */
+export function stateLabel(fsm: FSMData, state: number): string {
+  if (fsm.namedStates && state in fsm.stateNames) {
+    return fsm.stateNames[state];
+  }
+  return `q${state}`;
+}
+
+/**
+ * Build an FSMData from its parts, for machines computed rather than parsed
+ * (e.g. by subset construction). The states are the keys of `transitions`, which
+ * must be 0..N-1 when zeroIndexed and 1..N otherwise. Passing `stateNames` makes
+ * a named machine; otherwise states are numeric.
+ */
+export function createFSM(parts: {
+  name: string;
+  symbols: string[];
+  transitions: Record<number, [string, string][]>;
+  startstate: number;
+  acceptstates: Iterable<number>;
+  zeroIndexed?: boolean;
+  mode?: FSMMode;
+  metadata?: FSMMetadata;
+  transitionOutputs?: Record<number, Record<string, string>>;
+  stateOutputs?: Record<number, string>;
+  stateNames?: Record<number, string>;
+}): FSMData {
+  const fsm: FSMData = {
+    name: parts.name,
+    states: Object.keys(parts.transitions).length,
+    symbols: [...parts.symbols],
+    transitions: parts.transitions,
+    startstate: parts.startstate,
+    acceptstates: new Set(parts.acceptstates),
+    zeroIndexed: parts.zeroIndexed ?? false,
+    indexingSource: 'declared',
+    namedStates: parts.stateNames !== undefined,
+    stateNames: {},
+    stateIndex: {},
+    metadata: { ...parts.metadata },
+    mode: parts.mode ?? 'dfa',
+    transitionOutputs: parts.transitionOutputs ?? {},
+    stateOutputs: parts.stateOutputs ?? {},
+  };
+  for (const state of getStateIds(fsm)) {
+    const name = parts.stateNames?.[state] ?? String(state);
+    fsm.stateNames[state] = name;
+    fsm.stateIndex[name] = state;
+  }
+  return fsm;
 }
 
 /**
- * Run the FSM with given input and return result
+ * True when the machine is a transducer, i.e. has Mealy or Moore outputs
  */
-export function runFSM(fsm: FSMData, input: string): { 
+export function hasOutputs(fsm: FSMData): boolean {
+  return Object.keys(fsm.transitionOutputs).length > 0 || Object.keys(fsm.stateOutputs).length > 0;
+}
+
+/**
+ * Output produced by one step: the transition's (Mealy) output followed by the entered state's (Moore) output
+ */
+export function stepOutput(fsm: FSMData, from: number, symbol: string, to: number): string {
+  return (fsm.transitionOutputs[from]?.[symbol] ?? '') + (fsm.stateOutputs[to] ?? '');
+}
+
+/**
+ * Check whether a state is one of the FSM's accept states
+ */
+export function isAcceptState(fsm: FSMData, state: number): boolean {
+  return fsm.acceptstates.has(state);
+}
+
+/**
+ * Format the accept states for display, e.g. "q1, q3"
+ */
+export function formatAcceptStates(fsm: FSMData): string {
+  return [...fsm.acceptstates].sort((a, b) => a - b).map(s => stateLabel(fsm, s)).join(', ');
+}
+
+/**
+ * Run the FSM with given input and return result.
+ * For transducers `output` holds the concatenated outputs and each path step
+ * records the output produced on entering it (see stepOutput).
+ * Input is split into symbols by tokenizeInput, so multi-character alphabets work.
+ * NFAs have no single path; use runNFA from fsm-nfa for them.
+ */
+export function runFSM(fsm: FSMData, input: string, options: TokenizeOptions = {}): { 
   accepted: boolean; 
-  path: { state: number; symbol?: string }[];
+  path: { state: number; symbol?: string; output?: string }[];
   endState: number;
+  output: string;
   error?: string;
 } {
+  if (fsm.mode === 'nfa') {
+    return {
+      accepted: false,
+      path: [{ state: fsm.startstate }],
+      endState: fsm.startstate,
+      output: '',
+      error: 'Nondeterministic machines have no single path; simulate the active state sets or convert to a DFA',
+    };
+  }
+  
   // Build transition map: key = "state,symbol" -> nextState
   const transitionMap: Record<string, number> = {};
   for (const [state, transitionList] of Object.entries(fsm.transitions)) {
@@ -444,29 +1301,42 @@ export function runFSM(fsm: FSMData, input: string): {
   }
   
   let currentState = fsm.startstate;
-  const path: { state: number; symbol?: string }[] = [{ state: currentState }];
+  let output = '';
+  const path: { state: number; symbol?: string; output?: string }[] = [{ state: currentState }];
+
+  const tokenized = tokenizeInput(input, fsm.symbols, options);
+  if (tokenized.error) {
+    return { accepted: false, path, endState: currentState, output, error: tokenized.error };
+  }
   
-  for (const symbol of input) {
+  for (const symbol of tokenized.symbols) {
     const key = `${currentState},${symbol}`;
     
     if (!(key in transitionMap)) {
+      // In a partial DFA a missing transition leads to the implicit dead state, which rejects
+      const deadState = fsm.mode === 'partial' && fsm.symbols.includes(symbol);
       return {
         accepted: false,
         path,
         endState: currentState,
-        error: `No transition for '${symbol}' from state ${currentState}`,
+        output,
+        error: `No transition for '${symbol}' from state ${stateLabel(fsm, currentState)}` +
+          (deadState ? '; rejected by the implicit dead state' : ''),
       };
     }
     
     const nextState = transitionMap[key];
-    path.push({ state: nextState, symbol });
+    const stepOut = stepOutput(fsm, currentState, symbol, nextState);
+    path.push({ state: nextState, symbol, output: stepOut });
+    output += stepOut;
     currentState = nextState;
   }
   
   return {
-    accepted: currentState === fsm.acceptstate,
+    accepted: isAcceptState(fsm, currentState),
     path,
     endState: currentState,
+    output,
   };
 }
 
@@ -477,3 +1347,11 @@ export function parseFSMFile(content: string): FSMData {
   const parser = new FSMParser();
   return parser.parse(content);
 }
+
+/**
+ * Parse FSM file content, reporting every problem found rather than only the first
+ */
+export function parseFSMFileWithDiagnostics(content: string): FSMParseResult {
+  const parser = new FSMParser();
+  return parser.parseWithDiagnostics(content);
+}
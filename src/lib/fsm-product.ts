@@ -0,0 +1,129 @@
+/**
+ * FSM Product - boolean operations on machines
+ * Product construction for union, intersection, difference and symmetric difference, plus complement
+ */
+
+import { FSMData, createFSM, getStateIds, isAcceptState } from './fsm-parser';
+import { nfaToDFA } from './fsm-nfa';
+import { addSinkState } from './fsm-completion';
+
+export type BooleanOperation = 'union' | 'intersection' | 'difference' | 'symmetric-difference';
+
+export const BOOLEAN_OPERATIONS: Record<BooleanOperation, { label: string; keyword: string }> = {
+  union: { label: 'Union (A or B)', keyword: 'or' },
+  intersection: { label: 'Intersection (A and B)', keyword: 'and' },
+  difference: { label: 'Difference (A and not B)', keyword: 'minus' },
+  'symmetric-difference': { label: 'Symmetric difference (A xor B)', keyword: 'xor' },
+};
+
+/**
+ * A complete DFA for the same language: NFAs are determinized, partial DFAs get their dead state
+ */
+function completeDFA(fsm: FSMData): FSMData {
+  if (fsm.mode === 'nfa') return nfaToDFA(fsm).dfa;
+  if (fsm.mode === 'partial') return addSinkState(fsm);
+  return fsm;
+}
+
+function nextState(fsm: FSMData, state: number, symbol: string): number {
+  const transition = fsm.transitions[state].find(([transSymbol]) => transSymbol === symbol);
+  return parseInt(transition[1], 10);
+}
+
+function combine(operation: BooleanOperation, inA: boolean, inB: boolean): boolean {
+  switch (operation) {
+    case 'union':
+      return inA || inB;
+    case 'intersection':
+      return inA && inB;
+    case 'difference':
+      return inA && !inB;
+    case 'symmetric-difference':
+      return inA !== inB;
+  }
+}
+
+/**
+ * Build the product of two machines over the same alphabet. Only pairs reachable
+ * from the pair of start states are kept, numbered breadth-first in the first
+ * machine's indexing scheme. When either machine has named states the product
+ * states are named after both, e.g. even_q2. Outputs are not carried over.
+ */
+export function productFSM(first: FSMData, second: FSMData, operation: BooleanOperation): FSMData {
+  const sameAlphabet = first.symbols.length === second.symbols.length
+    && first.symbols.every(symbol => second.symbols.includes(symbol));
+  if (!sameAlphabet) {
+    throw new Error(
+      `Both machines need the same alphabet: {${first.symbols.join(', ')}} vs {${second.symbols.join(', ')}}`
+    );
+  }
+
+  const a = completeDFA(first);
+  const b = completeDFA(second);
+  const base = first.zeroIndexed ? 0 : 1;
+  const key = (p: number, q: number) => `${p},${q}`;
+
+  const pairs: [number, number][] = [[a.startstate, b.startstate]];
+  const ids = new Map<string, number>([[key(a.startstate, b.startstate), base]]);
+  const transitions: Record<number, [string, string][]> = {};
+
+  for (let i = 0; i < pairs.length; i++) {
+    const [p, q] = pairs[i];
+    transitions[base + i] = a.symbols.map(symbol => {
+      const next: [number, number] = [nextState(a, p, symbol), nextState(b, q, symbol)];
+      if (!ids.has(key(...next))) {
+        ids.set(key(...next), base + pairs.length);
+        pairs.push(next);
+      }
+      return [symbol, String(ids.get(key(...next)))] as [string, string];
+    });
+  }
+
+  const acceptstates = pairs
+    .map(([p, q], i) => (combine(operation, isAcceptState(a, p), isAcceptState(b, q)) ? base + i : null))
+    .filter((state): state is number => state !== null);
+
+  let stateNames: Record<number, string> | undefined;
+  if (a.namedStates || b.namedStates) {
+    const label = (fsm: FSMData, state: number) => (fsm.namedStates ? fsm.stateNames[state] : `q${state}`);
+    stateNames = {};
+    const used = new Set<string>();
+    pairs.forEach(([p, q], i) => {
+      let name = `${label(a, p)}_${label(b, q)}`;
+      // Names with underscores can meet in the middle, e.g. x_y + z and x + y_z
+      for (let n = 2; used.has(name); n++) name = `${label(a, p)}_${label(b, q)}_${n}`;
+      used.add(name);
+      stateNames[base + i] = name;
+    });
+  }
+
+  return createFSM({
+    name: `${first.name}_${BOOLEAN_OPERATIONS[operation].keyword}_${second.name}`,
+    symbols: a.symbols,
+    transitions,
+    startstate: base,
+    acceptstates,
+    zeroIndexed: first.zeroIndexed,
+    stateNames,
+  });
+}
+
+/**
+ * Machine accepting exactly the strings the given one rejects. The machine is made
+ * a complete DFA first so that strings falling off a partial machine are accepted.
+ */
+export function complementFSM(fsm: FSMData): FSMData {
+  const dfa = completeDFA(fsm);
+  const acceptstates = getStateIds(dfa).filter(state => !isAcceptState(dfa, state));
+
+  return createFSM({
+    name: `${fsm.name}_complement`,
+    symbols: dfa.symbols,
+    transitions: dfa.transitions,
+    startstate: dfa.startstate,
+    acceptstates,
+    zeroIndexed: dfa.zeroIndexed,
+    metadata: fsm.metadata,
+    stateNames: dfa.namedStates ? dfa.stateNames : undefined,
+  });
+}
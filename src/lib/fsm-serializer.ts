@@ -0,0 +1,142 @@
+/**
+ * FSM Serializer - Writes FSMData back to the text format read by FSMParser
+ * Supports the JSON-like, on/move and dotted transition syntaxes
+ */
+
+import { FSMData, getStateIds, METADATA_FIELDS } from './fsm-parser';
+import { addSinkState } from './fsm-completion';
+import { downloadTextFile } from './download';
+
+export type TransitionSyntax = 'json' | 'on-move' | 'dotted';
+
+export interface SerializeOptions {
+  syntax?: TransitionSyntax;
+  explicitSink?: boolean; // write a partial DFA as a complete one with a dead state
+}
+
+export const TRANSITION_SYNTAX_LABELS: Record<TransitionSyntax, string> = {
+  json: 'JSON-like ( 1: { "0": 1 } )',
+  'on-move': "On/move ( 1: on '0' move '1' )",
+  dotted: 'Dotted ( 1: 0.1, 1.2 )',
+};
+
+/**
+ * Quote a symbol if it cannot be written bare (contains separators, spaces, quotes or an output slash)
+ */
+function formatSymbol(symbol: string): string {
+  if (/^[^\s,'"{}:#/]+$/.test(symbol)) return symbol;
+  return quote(symbol);
+}
+
+/**
+ * Wrap text in double quotes, or single quotes if it contains a double quote.
+ * The format has no escape for quotes, so text containing both cannot be written.
+ */
+function quote(text: string, preferred: '"' | "'" = '"'): string {
+  if (text.includes('"') && text.includes("'")) {
+    throw new Error(`Cannot write ${text} to an FSM file: it contains both " and ', and the format has no escape for quotes`);
+  }
+  const other = preferred === '"' ? "'" : '"';
+  return text.includes(preferred) ? `${other}${text}${other}` : `${preferred}${text}${preferred}`;
+}
+
+/**
+ * Label a state the way it was written: its name for named machines, otherwise its index
+ */
+function formatState(fsm: FSMData, state: number): string {
+  return fsm.namedStates ? fsm.stateNames[state] : String(state);
+}
+
+function formatRow(fsm: FSMData, state: number, syntax: TransitionSyntax): string {
+  const label = formatState(fsm, state);
+  // NFA rows may repeat a symbol (one entry per target) and include ε
+  const transitions = (fsm.transitions[state] ?? []).map(
+    ([symbol, target]) => [symbol, formatState(fsm, parseInt(target, 10)), fsm.transitionOutputs[state]?.[symbol]] as const
+  );
+
+  switch (syntax) {
+    case 'json':
+      return `  ${label}: { ${transitions.map(([symbol, target, output]) =>
+        `${quote(symbol)}: ${target}${output !== undefined ? ` / ${quote(output)}` : ''}`).join(', ')} }`;
+    case 'on-move':
+      return `${label}: ${transitions.map(([symbol, target, output]) =>
+        `on ${quote(symbol, "'")} move '${target}'${output !== undefined ? ` emit ${quote(output, "'")}` : ''}`).join(', ')}`;
+    case 'dotted':
+      return `${label}: ${transitions.map(([symbol, target, output]) =>
+        `${formatSymbol(symbol)}.${target}${output !== undefined ? `/${formatSymbol(output)}` : ''}`).join(', ')}`;
+  }
+}
+
+/**
+ * Serialize an FSM to the text format accepted by parseFSMFile.
+ * State indices are written as-is under an explicit `indexing` header, so the
+ * original indexing scheme is preserved and parse -> serialize -> parse yields
+ * an identical machine.
+ */
+export function serializeFSM(fsm: FSMData, options: SerializeOptions = {}): string {
+  if (options.explicitSink && fsm.mode === 'partial') {
+    fsm = addSinkState(fsm);
+  }
+  const syntax = options.syntax ?? 'json';
+  const stateIds = getStateIds(fsm);
+  const lines: string[] = [];
+
+  lines.push(`Name = ${quote(fsm.name)}`);
+  for (const field of METADATA_FIELDS) {
+    if (fsm.metadata[field] !== undefined) {
+      lines.push(`${field} = ${quote(fsm.metadata[field])}`);
+    }
+  }
+  lines.push('');
+  if (fsm.mode !== 'dfa') {
+    lines.push(`mode = ${fsm.mode}`);
+    lines.push('');
+  }
+  // Named machines default to 1..N, so they only need the header when 0-based
+  if (!fsm.namedStates || fsm.zeroIndexed) {
+    lines.push(`indexing = ${fsm.zeroIndexed ? 0 : 1}`);
+    lines.push('');
+  }
+  lines.push(fsm.namedStates
+    ? `states = {${stateIds.map(s => formatState(fsm, s)).join(', ')}}`
+    : `states = ${fsm.states}`);
+  lines.push('');
+  lines.push(`symbols = {${fsm.symbols.map(formatSymbol).join(', ')}}`);
+  lines.push('');
+
+  // Partial and NFA states without outgoing transitions have no row
+  const rowIds = stateIds.filter(state => fsm.mode === 'dfa' || (fsm.transitions[state] ?? []).length > 0);
+  if (syntax === 'json') {
+    lines.push('transitions = {');
+    const rows = rowIds.map(state => formatRow(fsm, state, syntax));
+    lines.push(rows.map((row, idx) => (idx < rows.length - 1 ? `${row},` : row)).join('\n'));
+    lines.push('}');
+  } else {
+    lines.push('transitions =');
+    for (const state of rowIds) {
+      lines.push(formatRow(fsm, state, syntax));
+    }
+  }
+  lines.push('');
+
+  lines.push(`startstate = ${formatState(fsm, fsm.startstate)}`);
+  lines.push('');
+
+  const accepts = [...fsm.acceptstates].sort((a, b) => a - b).map(s => formatState(fsm, s));
+  lines.push(accepts.length === 1 ? `acceptstate = ${accepts[0]}` : `acceptstate = {${accepts.join(', ')}}`);
+
+  const mooreStates = stateIds.filter(state => state in fsm.stateOutputs);
+  if (mooreStates.length > 0) {
+    lines.push('');
+    lines.push(`outputs = {${mooreStates.map(state => `${formatState(fsm, state)}: ${formatSymbol(fsm.stateOutputs[state])}`).join(', ')}}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Download serialized FSM content as a text file
+ */
+export function downloadFSMFile(content: string, filename: string): void {
+  downloadTextFile(content, filename, 'text/plain');
+}
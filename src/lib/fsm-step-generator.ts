@@ -3,7 +3,8 @@
  * Ported from Java FSM utility
  */
 
-import { FSMData } from './fsm-parser';
+import { FSMData, getStateIds } from './fsm-parser';
+import { tokenizeInput, TokenizeOptions } from './fsm-tokenizer';
 
 export interface StateStep {
   currentState: number;
@@ -16,10 +17,17 @@ export interface StepResult {
   symbol: string;
   isAnchor: boolean;
   states: StateStep[];
+  unprunedCount: number; // entries this position would have without pruning
 }
 
 export interface GenerationResult {
   steps: StepResult[];
+  pruned: boolean;
+  error?: string; // invalid input token; no steps are generated
+}
+
+export interface GenerationOptions extends TokenizeOptions {
+  prune?: boolean; // only emit states that some input of length `position` can reach from the start state
 }
 
 /**
@@ -37,39 +45,62 @@ function getTransition(fsmData: FSMData, state: number, symbol: string): number
   return null;
 }
 
+/**
+ * States occupiable at each position: position 0 holds only the start state, and
+ * position k + 1 holds every successor (on any symbol) of a state at position k
+ */
+export function reachableByPosition(fsmData: FSMData, positions: number): Set<number>[] {
+  const sets = [new Set([fsmData.startstate])];
+  for (let position = 1; position < positions; position++) {
+    const next = new Set<number>();
+    for (const state of sets[position - 1]) {
+      for (const symbol of fsmData.symbols) {
+        const target = getTransition(fsmData, state, symbol);
+        if (target !== null) next.add(target);
+      }
+    }
+    sets.push(next);
+  }
+  return sets;
+}
+
 /**
  * Generate FSM steps for visualization
  * 
  * @param fsmData - The FSM data from context
  * @param input - The input string to process
+ * @param options - Set prune to drop competing states that can never be occupied at a position,
+ *                  and separator to split the input on it instead of by longest symbol match
  * @returns Structured JSON object with step data
  */
-export function generateFSMSteps(fsmData: FSMData, input: string): GenerationResult {
+export function generateFSMSteps(fsmData: FSMData, input: string, options: GenerationOptions = {}): GenerationResult {
+  const pruned = options.prune ?? false;
   const steps: StepResult[] = [];
   
-  // Determine chunk size from first symbol length
-  const chunkSize = fsmData.symbols[0]?.length || 1;
-  
-  // Split input into chunks
-  const chunks: string[] = [];
-  for (let i = 0; i < input.length; i += chunkSize) {
-    chunks.push(input.slice(i, i + chunkSize));
+  // Split input into symbols the same way runFSM does
+  const tokenized = tokenizeInput(input, fsmData.symbols, options);
+  if (tokenized.error) {
+    return { steps: [], pruned, error: tokenized.error };
   }
+  const symbols = tokenized.symbols;
 
-  if (chunks.length === 0) {
-    return { steps: [] };
+  if (symbols.length === 0) {
+    return { steps: [], pruned };
   }
 
-  // Process each chunk
-  for (let position = 0; position < chunks.length; position++) {
-    const symbol = chunks[position];
-    const upcomingInput = position < chunks.length - 1 ? chunks[position + 1] : null;
+  const reachable = pruned ? reachableByPosition(fsmData, symbols.length) : null;
+
+  // Process each symbol
+  for (let position = 0; position < symbols.length; position++) {
+    const symbol = symbols[position];
+    const upcomingInput = position < symbols.length - 1 ? symbols[position + 1] : null;
     const isAnchor = position === 0;
 
     const stateResults: StateStep[] = [];
+    let unprunedCount = 1;
 
     if (isAnchor) {
-      // Anchor position: only show the start state (state 1)
+      // Anchor position: only show the start state
       const nextState = getTransition(fsmData, fsmData.startstate, symbol);
       stateResults.push({
         currentState: fsmData.startstate,
@@ -77,8 +108,11 @@ export function generateFSMSteps(fsmData: FSMData, input: string): GenerationRes
         upcomingInput: upcomingInput,
       });
     } else {
-      // Non-anchor: iterate through all states for competing tiles
-      for (let stateNum = 1; stateNum <= fsmData.states; stateNum++) {
+      // Non-anchor: iterate through all states (in the machine's own indexing) for competing tiles
+      unprunedCount = 0;
+      for (const stateNum of getStateIds(fsmData)) {
+        unprunedCount++;
+        if (reachable && !reachable[position].has(stateNum)) continue;
         const nextState = getTransition(fsmData, stateNum, symbol);
         stateResults.push({
           currentState: stateNum,
@@ -93,8 +127,9 @@ export function generateFSMSteps(fsmData: FSMData, input: string): GenerationRes
       symbol,
       isAnchor,
       states: stateResults,
+      unprunedCount,
     });
   }
 
-  return { steps };
+  return { steps, pruned };
 }
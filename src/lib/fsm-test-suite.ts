@@ -0,0 +1,115 @@
+/**
+ * FSM Test Suites - expectations kept with a machine definition
+ * A suite is a `tests { ... }` block in the FSM file or a separate .fsmtest file, one test per line
+ * in the batch format (input, ACCEPT or REJECT, optional final state); it runs whenever a machine is loaded
+ *
+ *   # divby4.fsmtest
+ *   100, ACCEPT, 2
+ *   ε, REJECT
+ */
+
+import { FSMData, FSMDiagnostic, FSMParseResult, parseFSMFileWithDiagnostics } from './fsm-parser';
+import { BatchResult, BatchSummary, formatBatchRow, parseBatch, runBatch, summarizeBatch } from './fsm-batch';
+
+export const TEST_FILE_EXTENSION = '.fsmtest';
+
+export interface FSMTestSuite {
+  source: string; // the .fsmtest file name, or "tests block" for tests inside the FSM file
+  text: string; // lines keep their numbering in the source, so errors point at the right line
+  note?: string; // how the suite was adapted to a derived machine, e.g. after minimization
+}
+
+export interface TestSuiteRun {
+  results: BatchResult[];
+  summary: BatchSummary;
+  errors: string[]; // rows that could not be read, as "Line N: ..."
+}
+
+export interface FSMWithTestsParseResult extends FSMParseResult {
+  tests: FSMTestSuite | null; // the tests block, if the file has one
+}
+
+const TESTS_OPEN = /^\s*tests\s*(=\s*)?\{\s*$/i;
+const TESTS_CLOSE = /^\s*\}\s*$/;
+
+/**
+ * Parse FSM file content that may contain a tests block. The block is blanked out
+ * before the machine is parsed, so the parser never sees it and diagnostics keep
+ * their line numbers; an unclosed block is reported as an error.
+ */
+export function parseFSMWithTests(content: string): FSMWithTestsParseResult {
+  const lines = content.split(/\r?\n/);
+  const open = lines.findIndex(line => TESTS_OPEN.test(line));
+  if (open === -1) {
+    return { ...parseFSMFileWithDiagnostics(content), tests: null };
+  }
+
+  const close = lines.findIndex((line, idx) => idx > open && TESTS_CLOSE.test(line));
+  if (close === -1) {
+    const unclosed: FSMDiagnostic = {
+      severity: 'error',
+      code: 'unclosed-tests',
+      message: "The tests block is never closed; end it with a line holding only '}'",
+      line: open + 1,
+      column: 1,
+      endLine: open + 1,
+      endColumn: lines[open].length + 1,
+    };
+    return { fsm: null, diagnostics: [unclosed], tests: null };
+  }
+
+  const machine = lines.map((line, idx) => (idx >= open && idx <= close ? '' : line)).join('\n');
+  // Blank lines in front of the body keep its rows on their line numbers in the file
+  const text = lines.map((line, idx) => (idx > open && idx < close ? line : '')).slice(0, close).join('\n');
+  return { ...parseFSMFileWithDiagnostics(machine), tests: { source: 'tests block', text } };
+}
+
+/**
+ * Run a suite against a machine; a row whose input is outside the alphabet fails
+ * as ERROR, so a mistyped test cannot hide a bad machine edit
+ */
+export function runTestSuite(fsm: FSMData, suite: FSMTestSuite): TestSuiteRun {
+  const { cases, errors } = parseBatch(suite.text, fsm);
+  const results = runBatch(fsm, cases);
+  return { results, summary: summarizeBatch(results), errors };
+}
+
+/**
+ * Rewrite the expected final state of every readable row; relabel returns the new
+ * state or null to drop the expectation. Unreadable rows are left for runTestSuite to report.
+ */
+function rewriteExpectedStates(
+  suite: FSMTestSuite,
+  from: FSMData,
+  to: FSMData,
+  relabel: (state: number) => number | null,
+  note: string
+): FSMTestSuite {
+  const lines = suite.text.split('\n');
+  let changed = 0;
+  for (const testCase of parseBatch(suite.text, from).cases) {
+    if (testCase.expectedState === null) continue;
+    const state = relabel(testCase.expectedState);
+    lines[testCase.line - 1] = formatBatchRow(to, testCase.input, testCase.expected, state);
+    changed++;
+  }
+  return changed === 0 ? suite : { ...suite, text: lines.join('\n'), note };
+}
+
+/**
+ * Carry a suite over to the minimized machine: expected final states follow the
+ * minimization mapping, and expectations on unreachable states are dropped
+ */
+export function remapTestSuite(suite: FSMTestSuite, from: FSMData, to: FSMData, mapping: Record<number, number | null>): FSMTestSuite {
+  return rewriteExpectedStates(suite, from, to, state => mapping[state] ?? null,
+    'Expected final states were renumbered for the minimized machine');
+}
+
+/**
+ * Carry a suite over to the DFA built from an NFA. A DFA state stands for a set of
+ * NFA states, so expected final states cannot be translated and are dropped.
+ */
+export function dropExpectedStates(suite: FSMTestSuite, from: FSMData, to: FSMData): FSMTestSuite {
+  return rewriteExpectedStates(suite, from, to, () => null,
+    'Expected final states were dropped; they name NFA states, which the converted DFA does not have');
+}
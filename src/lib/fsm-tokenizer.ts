@@ -0,0 +1,82 @@
+/**
+ * Input Tokenizer - splits an input string into alphabet symbols
+ * Shared by simulation, step generation and the experiment sheets so they all read multi-character symbols the same way
+ */
+
+export interface TokenizeOptions {
+  separator?: string; // split on this instead of matching symbols back to back
+}
+
+export interface InputToken {
+  symbol: string;
+  position: number; // 0-based character offset in the input
+}
+
+export interface TokenizeResult {
+  tokens: InputToken[];
+  symbols: string[]; // tokens[i].symbol, for callers that only need the sequence
+  error?: string; // "Position N: ..." for the first invalid token; tokens stop just before it
+  errorPosition?: number; // 0-based character offset of the invalid token
+}
+
+function invalid(tokens: InputToken[], position: number, text: string, alphabet: string[]): TokenizeResult {
+  return {
+    tokens,
+    symbols: tokens.map(token => token.symbol),
+    error: `Position ${position + 1}: Symbol '${text}' is not in the alphabet {${alphabet.join(', ')}}`,
+    errorPosition: position,
+  };
+}
+
+/**
+ * Split input into symbols of the alphabet. Without a separator the longest symbol
+ * matching at each point is taken, so {1, 10, 11} reads "1011" as 10, 11; whitespace
+ * between symbols is skipped. With a separator every piece between separators must be
+ * a symbol, after trimming surrounding whitespace.
+ */
+export function tokenizeInput(input: string, alphabet: string[], options: TokenizeOptions = {}): TokenizeResult {
+  const tokens: InputToken[] = [];
+
+  if (options.separator) {
+    let offset = 0;
+    for (const piece of input.split(options.separator)) {
+      const trimmed = piece.trim();
+      const position = offset + piece.indexOf(trimmed);
+      offset += piece.length + options.separator.length;
+      if (trimmed === '') continue;
+      if (!alphabet.includes(trimmed)) return invalid(tokens, position, trimmed, alphabet);
+      tokens.push({ symbol: trimmed, position });
+    }
+    return { tokens, symbols: tokens.map(token => token.symbol) };
+  }
+
+  // Longest first, so a symbol is never cut short by one of its prefixes
+  const bySize = [...alphabet].sort((a, b) => b.length - a.length);
+  let position = 0;
+  while (position < input.length) {
+    const symbol = bySize.find(s => s.length > 0 && input.startsWith(s, position));
+    if (symbol !== undefined) {
+      tokens.push({ symbol, position });
+      position += symbol.length;
+    } else if (/\s/.test(input[position])) {
+      position++;
+    } else {
+      // Report the whole unreadable run, up to where a symbol or whitespace starts again
+      let end = position + 1;
+      while (end < input.length && !/\s/.test(input[end]) && !bySize.some(s => s.length > 0 && input.startsWith(s, end))) {
+        end++;
+      }
+      return invalid(tokens, position, input.slice(position, end), alphabet);
+    }
+  }
+
+  return { tokens, symbols: tokens.map(token => token.symbol) };
+}
+
+/**
+ * Write symbols back as an input string that tokenizes to the same symbols:
+ * back to back for single-character alphabets, space separated otherwise
+ */
+export function joinSymbols(symbols: string[], alphabet: string[]): string {
+  return symbols.join(alphabet.some(symbol => symbol.length > 1) ? ' ' : '');
+}
@@ -0,0 +1,71 @@
+/**
+ * FSM Witnesses - shortest inputs into and out of every state
+ * Used to pick experiment inputs that end in a chosen state or exercise acceptance and rejection
+ */
+
+import { FSMData, getStateIds, isAcceptState } from './fsm-parser';
+
+export interface StateWitness {
+  state: number;
+  reach: string[] | null; // shortest input from the start state to this state; null when unreachable
+  toAccept: string[] | null; // shortest continuation from this state that is accepted; null when none exists
+  toReject: string[] | null; // shortest continuation from this state that is rejected; null when none exists
+}
+
+/**
+ * Next state on a symbol; null is the implicit dead state of a partial DFA
+ */
+function move(fsm: FSMData, state: number, symbol: string): number | null {
+  const transition = (fsm.transitions[state] ?? []).find(([transSymbol]) => transSymbol === symbol);
+  return transition ? parseInt(transition[1], 10) : null;
+}
+
+/**
+ * Breadth-first search for the shortest input leading from `from` to a state satisfying `goal`.
+ * Ties go to the input that comes first in alphabet order. With nonEmpty, at least one symbol is read.
+ */
+export function shortestInput(
+  fsm: FSMData,
+  from: number,
+  goal: (state: number | null) => boolean,
+  nonEmpty = false
+): string[] | null {
+  if (fsm.mode === 'nfa') {
+    throw new Error('Witnesses need a deterministic machine; convert the NFA to a DFA first');
+  }
+  if (!nonEmpty && goal(from)) return [];
+
+  const seen = new Set<number | null>();
+  const queue: { state: number | null; symbols: string[] }[] = [{ state: from, symbols: [] }];
+
+  while (queue.length > 0) {
+    const { state, symbols } = queue.shift()!;
+    if (symbols.length > 0 && goal(state)) return symbols;
+    // The dead state only leads back to itself
+    if (state === null) continue;
+
+    for (const symbol of fsm.symbols) {
+      const next = move(fsm, state, symbol);
+      if (!seen.has(next)) {
+        seen.add(next);
+        queue.push({ state: next, symbols: [...symbols, symbol] });
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Shortest reach, accept and reject witnesses for every state of a DFA or partial DFA
+ */
+export function computeWitnesses(fsm: FSMData): StateWitness[] {
+  const accepting = (state: number | null) => state !== null && isAcceptState(fsm, state);
+
+  return getStateIds(fsm).map(state => ({
+    state,
+    reach: shortestInput(fsm, fsm.startstate, s => s === state),
+    toAccept: shortestInput(fsm, state, accepting),
+    toReject: shortestInput(fsm, state, s => !accepting(s)),
+  }));
+}
@@ -0,0 +1,78 @@
+/**
+ * Oracle Sandbox - evaluates a user-written oracle expression away from the page
+ * The expression runs in a dedicated worker with no DOM and no network or storage APIs,
+ * module loading is refused before it starts, and the worker is terminated when it does
+ * not answer in time. This keeps mistakes in your own expressions contained; it is not a
+ * security boundary for code you do not trust.
+ */
+
+import { OracleCase } from './fsm-oracle';
+
+export const ORACLE_TIMEOUT_MS = 10000;
+
+export interface OracleRequest {
+  expression: string;
+  cases: Pick<OracleCase, 'input' | 'symbols'>[];
+}
+
+export type OracleResponse = { verdicts: boolean[] } | { error: string };
+
+// import(), import.meta and importScripts could load code from elsewhere into the worker
+const MODULE_LOADING = /\bimport\b|\bimportScripts\b/;
+
+/**
+ * Why an expression is refused before it is evaluated, or null when it may run
+ */
+export function oracleExpressionError(expression: string): string | null {
+  if (MODULE_LOADING.test(expression)) return 'The oracle cannot load modules or scripts; remove import and importScripts';
+  return null;
+}
+
+/**
+ * Evaluate `expression` for every case, with `x` bound to the input string and
+ * `symbols` to its symbols, e.g. parseInt(x, 2) % 4 === 0. Rejects when the
+ * expression loads modules, does not compile, throws, returns something other
+ * than true or false, or runs longer than timeoutMs.
+ */
+export function evaluateOracle(
+  expression: string,
+  cases: Pick<OracleCase, 'input' | 'symbols'>[],
+  timeoutMs = ORACLE_TIMEOUT_MS
+): Promise<boolean[]> {
+  return new Promise((resolve, reject) => {
+    const refused = oracleExpressionError(expression);
+    if (refused) {
+      reject(new Error(refused));
+      return;
+    }
+
+    const worker = new Worker(new URL('./oracle.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error(`The oracle did not finish within ${timeoutMs / 1000} s; check it for endless loops`));
+    }, timeoutMs);
+
+    worker.onmessage = (event: MessageEvent<OracleResponse>) => {
+      finish();
+      if ('error' in event.data) {
+        reject(new Error(event.data.error));
+      } else {
+        resolve(event.data.verdicts);
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'The oracle sandbox could not be started'));
+    };
+
+    const request: OracleRequest = {
+      expression,
+      cases: cases.map(({ input, symbols }) => ({ input, symbols })),
+    };
+    worker.postMessage(request);
+  });
+}
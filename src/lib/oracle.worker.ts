@@ -0,0 +1,66 @@
+/**
+ * Oracle Worker - runs an oracle expression over a batch of inputs
+ * Started by oracle-sandbox; answers a single request with one verdict per input or the first error
+ */
+
+import type { OracleRequest, OracleResponse } from './oracle-sandbox';
+
+// Keep our own way to answer before postMessage is taken away below
+const post = self.postMessage.bind(self);
+const reply = (response: OracleResponse) => post(response);
+
+// Workers have no DOM, but can still reach the network and storage; take those away from the
+// expression, on the prototypes too so they cannot be fetched back from WorkerGlobalScope
+const BLOCKED_GLOBALS = [
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'EventSource',
+  'BroadcastChannel',
+  'importScripts',
+  'indexedDB',
+  'caches',
+  'Worker',
+  'postMessage',
+];
+for (let scope: object = self; scope; scope = Object.getPrototypeOf(scope)) {
+  for (const name of BLOCKED_GLOBALS) {
+    if (scope !== self && !Object.prototype.hasOwnProperty.call(scope, name)) continue;
+    try {
+      Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false });
+    } catch {
+      // Some browsers make a few of these non-configurable; the expression still cannot see the DOM
+    }
+  }
+}
+
+self.onmessage = (event: MessageEvent<OracleRequest>) => {
+  const { expression, cases } = event.data;
+
+  let oracle: (x: string, symbols: string[]) => unknown;
+  try {
+    // The newline keeps a trailing // comment from swallowing the closing parenthesis
+    oracle = new Function('x', 'symbols', `'use strict';\nreturn (${expression}\n);`) as typeof oracle;
+  } catch (error) {
+    reply({ error: `The oracle does not compile: ${error instanceof Error ? error.message : String(error)}` });
+    return;
+  }
+
+  const verdicts: boolean[] = [];
+  for (const { input, symbols } of cases) {
+    const shown = input === '' ? 'ε' : input;
+    try {
+      const verdict = oracle(input, symbols);
+      if (typeof verdict !== 'boolean') {
+        reply({ error: `Input '${shown}': the oracle must return true or false, got ${typeof verdict} ${String(verdict)}` });
+        return;
+      }
+      verdicts.push(verdict);
+    } catch (error) {
+      reply({ error: `Input '${shown}': ${error instanceof Error ? error.message : String(error)}` });
+      return;
+    }
+  }
+
+  reply({ verdicts });
+};
@@ -0,0 +1,287 @@
+/**
+ * Regex Compiler - Builds a minimal DFA from a regular expression
+ * regex -> syntax tree -> Thompson NFA -> subset construction -> Hopcroft minimization
+ *
+ * Supported syntax: literals, alternation (a|b), grouping ( ), the postfix
+ * operators * + ?, character classes [01], the wildcard . (any symbol of the
+ * alphabet), ε for the empty string, and \ to escape an operator character.
+ */
+
+import { FSMData, EPSILON, createFSM } from './fsm-parser';
+import { nfaToDFA } from './fsm-nfa';
+import { minimizeDFA } from './fsm-minimizer';
+
+export class RegexSyntaxError extends Error {
+  position: number;
+
+  constructor(position: number, message: string) {
+    super(`Position ${position + 1}: ${message}`);
+    this.position = position;
+    this.name = 'RegexSyntaxError';
+  }
+}
+
+export type RegexNode =
+  | { type: 'empty' }
+  | { type: 'symbol'; symbol: string }
+  | { type: 'any' }
+  | { type: 'class'; symbols: string[] }
+  | { type: 'concat'; parts: RegexNode[] }
+  | { type: 'alt'; options: RegexNode[] }
+  | { type: 'star' | 'plus' | 'optional'; child: RegexNode };
+
+export interface RegexCompileOptions {
+  alphabet?: string[]; // defaults to the literal symbols used in the regex
+  name?: string;
+}
+
+/**
+ * Recursive-descent parser: alt := concat ('|' concat)*, concat := repeat*, repeat := atom [*+?]*
+ */
+class RegexParser {
+  private source: string;
+  private pos: number;
+
+  constructor(source: string) {
+    this.source = source;
+    this.pos = 0;
+  }
+
+  parse(): RegexNode {
+    const node = this.parseAlt();
+    if (this.pos < this.source.length) {
+      throw new RegexSyntaxError(this.pos, `Unexpected '${this.source[this.pos]}'`);
+    }
+    return node;
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.pos];
+  }
+
+  private parseAlt(): RegexNode {
+    const options = [this.parseConcat()];
+    while (this.peek() === '|') {
+      this.pos++;
+      options.push(this.parseConcat());
+    }
+    return options.length === 1 ? options[0] : { type: 'alt', options };
+  }
+
+  private parseConcat(): RegexNode {
+    const parts: RegexNode[] = [];
+    while (this.pos < this.source.length && this.peek() !== '|' && this.peek() !== ')') {
+      parts.push(this.parseRepeat());
+    }
+    if (parts.length === 0) return { type: 'empty' };
+    return parts.length === 1 ? parts[0] : { type: 'concat', parts };
+  }
+
+  private parseRepeat(): RegexNode {
+    let node = this.parseAtom();
+    while (this.peek() === '*' || this.peek() === '+' || this.peek() === '?') {
+      const op = this.source[this.pos++];
+      node = { type: op === '*' ? 'star' : op === '+' ? 'plus' : 'optional', child: node };
+    }
+    return node;
+  }
+
+  private parseAtom(): RegexNode {
+    const start = this.pos;
+    const ch = this.source[this.pos++];
+
+    switch (ch) {
+      case '(': {
+        const node = this.parseAlt();
+        if (this.peek() !== ')') {
+          throw new RegexSyntaxError(start, "Unclosed '('");
+        }
+        this.pos++;
+        return node;
+      }
+      case '[':
+        return this.parseClass(start);
+      case '.':
+        return { type: 'any' };
+      case '\\':
+        if (this.pos >= this.source.length) {
+          throw new RegexSyntaxError(start, "Nothing to escape after '\\'");
+        }
+        return { type: 'symbol', symbol: this.source[this.pos++] };
+      case EPSILON:
+        return { type: 'empty' };
+      case '*':
+      case '+':
+      case '?':
+        throw new RegexSyntaxError(start, `'${ch}' must follow something to repeat`);
+      case ']':
+        throw new RegexSyntaxError(start, "Unmatched ']'");
+      default:
+        return { type: 'symbol', symbol: ch };
+    }
+  }
+
+  private parseClass(start: number): RegexNode {
+    const symbols: string[] = [];
+    while (this.pos < this.source.length && this.peek() !== ']') {
+      let ch = this.source[this.pos++];
+      if (ch === '\\' && this.pos < this.source.length) ch = this.source[this.pos++];
+      if (!symbols.includes(ch)) symbols.push(ch);
+    }
+    if (this.peek() !== ']') {
+      throw new RegexSyntaxError(start, "Unclosed '['");
+    }
+    this.pos++;
+    if (symbols.length === 0) {
+      throw new RegexSyntaxError(start, 'Empty character class');
+    }
+    return { type: 'class', symbols };
+  }
+}
+
+/**
+ * Parse a regular expression into a syntax tree
+ */
+export function parseRegex(source: string): RegexNode {
+  return new RegexParser(source).parse();
+}
+
+/**
+ * Literal symbols used by a syntax tree, in order of first appearance
+ */
+function literalSymbols(node: RegexNode, found: string[] = []): string[] {
+  switch (node.type) {
+    case 'symbol':
+      if (!found.includes(node.symbol)) found.push(node.symbol);
+      break;
+    case 'class':
+      for (const symbol of node.symbols) {
+        if (!found.includes(symbol)) found.push(symbol);
+      }
+      break;
+    case 'concat':
+      node.parts.forEach(part => literalSymbols(part, found));
+      break;
+    case 'alt':
+      node.options.forEach(option => literalSymbols(option, found));
+      break;
+    case 'star':
+    case 'plus':
+    case 'optional':
+      literalSymbols(node.child, found);
+      break;
+  }
+  return found;
+}
+
+/**
+ * Thompson's construction: one start and one end state per subexpression, joined by ε transitions.
+ * States are numbered 1..N; the result is an NFA-mode FSMData.
+ */
+export function regexToNFA(node: RegexNode, alphabet: string[], name = 'regex'): FSMData {
+  const transitions: Record<number, [string, string][]> = {};
+  const newState = (): number => {
+    const state = Object.keys(transitions).length + 1;
+    transitions[state] = [];
+    return state;
+  };
+  const edge = (from: number, symbol: string, to: number) => {
+    transitions[from].push([symbol, String(to)]);
+  };
+
+  const build = (n: RegexNode): { start: number; end: number } => {
+    const start = newState();
+    switch (n.type) {
+      case 'empty': {
+        const end = newState();
+        edge(start, EPSILON, end);
+        return { start, end };
+      }
+      case 'symbol':
+      case 'any':
+      case 'class': {
+        const end = newState();
+        const symbols = n.type === 'symbol' ? [n.symbol] : n.type === 'class' ? n.symbols : alphabet;
+        symbols.forEach(symbol => edge(start, symbol, end));
+        return { start, end };
+      }
+      case 'concat': {
+        let current = start;
+        for (const part of n.parts) {
+          const fragment = build(part);
+          edge(current, EPSILON, fragment.start);
+          current = fragment.end;
+        }
+        return { start, end: current };
+      }
+      case 'alt': {
+        const fragments = n.options.map(build);
+        const end = newState();
+        for (const fragment of fragments) {
+          edge(start, EPSILON, fragment.start);
+          edge(fragment.end, EPSILON, end);
+        }
+        return { start, end };
+      }
+      case 'star':
+      case 'plus':
+      case 'optional': {
+        const fragment = build(n.child);
+        const end = newState();
+        edge(start, EPSILON, fragment.start);
+        edge(fragment.end, EPSILON, end);
+        if (n.type !== 'plus') edge(start, EPSILON, end);
+        if (n.type !== 'optional') edge(fragment.end, EPSILON, fragment.start);
+        return { start, end };
+      }
+    }
+  };
+
+  const { start, end } = build(node);
+
+  return createFSM({
+    name,
+    symbols: alphabet,
+    transitions,
+    startstate: start,
+    acceptstates: [end],
+    mode: 'nfa',
+  });
+}
+
+/**
+ * Compile a regular expression into a minimal, complete, 1-based DFA.
+ * Throws RegexSyntaxError for malformed expressions or symbols outside the alphabet.
+ */
+export function compileRegex(source: string, options: RegexCompileOptions = {}): FSMData {
+  const tree = parseRegex(source);
+  const literals = literalSymbols(tree);
+  const alphabet = options.alphabet?.length ? options.alphabet : literals;
+
+  for (const symbol of literals) {
+    if (!alphabet.includes(symbol)) {
+      throw new RegexSyntaxError(
+        source.indexOf(symbol),
+        `Symbol '${symbol}' is not in the alphabet {${alphabet.join(', ')}}`
+      );
+    }
+  }
+  if (alphabet.length === 0) {
+    throw new RegexSyntaxError(0, 'The regex uses no symbols; give an alphabet');
+  }
+  // Regex literals are single characters, so longer symbols could never be matched
+  const longSymbol = alphabet.find(symbol => symbol.length !== 1);
+  if (longSymbol !== undefined) {
+    throw new RegexSyntaxError(0, `Alphabet symbols must be single characters, got '${longSymbol}'`);
+  }
+
+  const name = options.name || 'regex';
+  const nfa = regexToNFA(tree, alphabet, name);
+  const { dfa } = minimizeDFA(nfaToDFA(nfa).dfa);
+
+  return {
+    ...dfa,
+    name,
+    metadata: { description: `Compiled from regex ${source}` },
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Tile Naming - position labels and tile names for experiment sheets
+ * A tile is named after the state it leaves, its input position and the state it enters, e.g. 1B2
+ */
+
+export type PositionLabelScheme = 'letters' | 'numeric';
+
+export const POSITION_LABEL_SCHEMES: Record<PositionLabelScheme, string> = {
+  letters: 'A–Z, then AA, AB, …',
+  numeric: 'P0, P1, P2, …',
+};
+
+export interface TileNamingOptions {
+  scheme?: PositionLabelScheme; // defaults to letters
+  separator?: string; // placed between the parts of a tile name; numeric labels always get one
+}
+
+/**
+ * Standard separator, and the one numeric labels fall back to: without it, 1P102 could be 1 P10 2 or 1 P1 02
+ */
+export const DEFAULT_SEPARATOR = '-';
+
+/**
+ * Label for a 0-based input position. Letters count A..Z, AA..AZ, BA.. (bijective base 26),
+ * so positions 0-7 keep their original A-H labels.
+ */
+export function positionLabel(position: number, scheme: PositionLabelScheme = 'letters'): string {
+  if (scheme === 'numeric') return `P${position}`;
+
+  let label = '';
+  for (let n = position + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
+
+/**
+ * Separator actually used for a naming scheme
+ */
+export function tileSeparator(options: TileNamingOptions = {}): string {
+  if (options.separator) return options.separator;
+  return options.scheme === 'numeric' ? DEFAULT_SEPARATOR : '';
+}
+
+/**
+ * Name a tile from its parts; `from` is null for the anchor and `to` is null at the final position.
+ * State numbers are digits and letter labels never are, so letter names stay unambiguous without a separator.
+ */
+export function tileName(
+  position: number,
+  from: number | null,
+  to: number | null,
+  options: TileNamingOptions = {}
+): string {
+  const parts = [from, positionLabel(position, options.scheme), to].filter(part => part !== null);
+  return parts.join(tileSeparator(options));
+}
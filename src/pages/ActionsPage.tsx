@@ -1,13 +1,36 @@
 import { useNavigate } from 'react-router-dom';
-import { useEffect } from 'react';
-import { Play, Table, FileSpreadsheet, ArrowLeft, CheckCircle, Terminal } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Play, Table, FileSpreadsheet, ArrowLeft, CheckCircle, Terminal, FileDown, AlertTriangle, GitMerge, Shrink, GitCompare, BarChart3, ListChecks, ShieldCheck, XCircle, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useFSM } from '@/lib/fsm-context';
+import { formatAcceptStates, stateLabel, IndexingSource, METADATA_FIELDS } from '@/lib/fsm-parser';
+import { serializeFSM, downloadFSMFile, TransitionSyntax, TRANSITION_SYNTAX_LABELS } from '@/lib/fsm-serializer';
+import { nfaToDFA } from '@/lib/fsm-nfa';
+import { findMissingTransitions } from '@/lib/fsm-completion';
+import { minimizeDFA, mergedStates } from '@/lib/fsm-minimizer';
+import { analyzeStructure, structuralWarnings } from '@/lib/fsm-analysis';
+import { dropExpectedStates, remapTestSuite, runTestSuite } from '@/lib/fsm-test-suite';
+
+const INDEXING_SOURCE_LABELS: Record<IndexingSource, string> = {
+  declared: 'declared',
+  detected: 'detected',
+  normalized: 'normalized from shifted rows',
+  named: 'named states',
+};
 
 export default function ActionsPage() {
   const navigate = useNavigate();
-  const { fsmData, fileName, clearFSMData } = useFSM();
+  const { fsmData, fileName, warnings, testSuite, setFSMData, setTestSuite, explicitSink, setExplicitSink, clearFSMData } = useFSM();
+  const [exportError, setExportError] = useState<string | null>(null);
 
   useEffect(() => {
     if (!fsmData) {
@@ -24,6 +47,47 @@ export default function ActionsPage() {
     navigate('/');
   };
 
+  const handleExport = (syntax: TransitionSyntax) => {
+    setExportError(null);
+    try {
+      downloadFSMFile(serializeFSM(fsmData, { syntax, explicitSink }), `${fsmData.name}.fsm`);
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Could not export the machine');
+    }
+  };
+
+  // Step generation and experiment sheets follow a single path, so they need a DFA
+  const isNFA = fsmData.mode === 'nfa';
+  const isPartial = fsmData.mode === 'partial';
+  const missingCount = isPartial ? findMissingTransitions(fsmData).length : 0;
+
+  const handleConvertToDFA = () => {
+    const { dfa } = nfaToDFA(fsmData);
+    setFSMData(dfa, `${dfa.name}.fsm`);
+    if (testSuite) setTestSuite(dropExpectedStates(testSuite, fsmData, dfa));
+  };
+
+  const analysis = analyzeStructure(fsmData);
+  const structureWarnings = structuralWarnings(fsmData, analysis);
+
+  // Fewer states means fewer competing tiles at every position
+  const minimization = isNFA ? null : minimizeDFA(fsmData);
+  const canReduce = minimization !== null && minimization.dfa.states < fsmData.states;
+  const merges = canReduce
+    ? Object.values(mergedStates(minimization)).filter(group => group.length > 1)
+    : [];
+
+  const handleUseMinimized = () => {
+    setFSMData(minimization.dfa, `${minimization.dfa.name}.fsm`);
+    if (testSuite) setTestSuite(remapTestSuite(testSuite, fsmData, minimization.dfa, minimization.mapping));
+  };
+
+  // Loaded tests run against whatever machine is current; a failing suite blocks the experiment sheet
+  const testRun = testSuite ? runTestSuite(fsmData, testSuite) : null;
+  const testsFailing = testRun !== null && (testRun.summary.failed > 0 || testRun.errors.length > 0);
+  const failures = testRun ? testRun.results.filter(r => !r.passed) : [];
+  const formatState = (state: number | null) => (state === null ? '—' : stateLabel(fsmData, state));
+
   return (
     <div className="min-h-screen bg-background flex flex-col items-center justify-center p-6">
       {/* Header */}
@@ -34,6 +98,9 @@ export default function ActionsPage() {
         </div>
         <h1 className="text-3xl font-bold font-mono text-foreground mb-2">{fsmData.name}</h1>
         <p className="text-muted-foreground font-mono text-sm">{fileName}</p>
+        {fsmData.metadata.description && (
+          <p className="text-muted-foreground text-sm mt-2 max-w-lg">{fsmData.metadata.description}</p>
+        )}
       </div>
 
       {/* FSM Info Card */}
@@ -56,16 +123,161 @@ export default function ActionsPage() {
             </div>
             <div className="space-y-1">
               <p className="text-muted-foreground">Start State</p>
-              <p className="font-mono font-medium text-foreground">q{fsmData.startstate}</p>
+              <p className="font-mono font-medium text-foreground">{stateLabel(fsmData, fsmData.startstate)}</p>
             </div>
             <div className="space-y-1">
-              <p className="text-muted-foreground">Accept State</p>
-              <p className="font-mono font-medium text-foreground">q{fsmData.acceptstate}</p>
+              <p className="text-muted-foreground">Accept States</p>
+              <p className="font-mono font-medium text-foreground">{formatAcceptStates(fsmData)}</p>
+            </div>
+            {METADATA_FIELDS.filter(field => field !== 'description' && fsmData.metadata[field] !== undefined).map(field => (
+              <div key={field} className="space-y-1">
+                <p className="text-muted-foreground capitalize">{field}</p>
+                <p className="font-mono font-medium text-foreground">{fsmData.metadata[field]}</p>
+              </div>
+            ))}
+            <div className="space-y-1 col-span-2">
+              <p className="text-muted-foreground">Indexing</p>
+              <p className="font-mono font-medium text-foreground">
+                {fsmData.zeroIndexed ? '0-based' : '1-based'}
+                <span className="text-muted-foreground font-normal"> ({INDEXING_SOURCE_LABELS[fsmData.indexingSource]})</span>
+              </p>
             </div>
+            {isNFA && (
+              <div className="space-y-1 col-span-2">
+                <p className="text-muted-foreground">Mode</p>
+                <p className="font-mono font-medium text-foreground">
+                  NFA
+                  <span className="text-muted-foreground font-normal"> (convert to a DFA to generate states or sheets)</span>
+                </p>
+              </div>
+            )}
+            {isPartial && (
+              <div className="space-y-1 col-span-2">
+                <p className="text-muted-foreground">Mode</p>
+                <p className="font-mono font-medium text-foreground">
+                  Partial DFA
+                  <span className="text-muted-foreground font-normal">
+                    {' '}({missingCount} missing transition{missingCount !== 1 ? 's' : ''} go to an implicit dead state)
+                  </span>
+                </p>
+              </div>
+            )}
           </div>
+          {analysis.components.length > 1 && (
+            <div className="mt-4 space-y-1 text-sm">
+              <p className="text-muted-foreground">Strongly Connected Components</p>
+              <p className="font-mono font-medium text-foreground">
+                {analysis.components.map(component => `{${component.map(s => stateLabel(fsmData, s)).join(', ')}}`).join(' ')}
+              </p>
+            </div>
+          )}
+          {structureWarnings.length > 0 && (
+            <div className="mt-4 p-3 rounded-lg bg-warning/10 border border-warning/30 space-y-1">
+              {structureWarnings.map((warning, idx) => (
+                <div key={idx} className="flex items-start gap-2 text-sm">
+                  <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0 mt-0.5" />
+                  <span className="text-foreground">{warning}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {warnings.length > 0 && (
+            <div className="mt-4 p-3 rounded-lg bg-warning/10 border border-warning/30 space-y-1">
+              {warnings.map((warning, idx) => (
+                <div key={idx} className="flex items-start gap-2 text-sm">
+                  <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0 mt-0.5" />
+                  <span className="text-foreground">
+                    {warning.line > 0 && <span className="font-mono text-muted-foreground">Line {warning.line}: </span>}
+                    {warning.message}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {/* Test Suite */}
+      {testRun && (
+        <Card
+          className={`w-full max-w-lg mb-8 animate-fade-in ${testsFailing ? 'border-destructive/40' : 'border-success/40'}`}
+          style={{ animationDelay: '0.12s' }}
+        >
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base font-mono flex items-center gap-2">
+              {testsFailing ? <XCircle className="w-4 h-4 text-destructive" /> : <CheckCircle className="w-4 h-4 text-success" />}
+              Tests
+              <span className="ml-auto text-sm font-normal text-muted-foreground">{testSuite.source}</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {testSuite.note && <p className="text-muted-foreground">{testSuite.note}.</p>}
+            <p className="text-foreground">
+              <span className="font-mono font-semibold text-success">{testRun.summary.passed}</span> passed,{' '}
+              <span className={`font-mono font-semibold ${testRun.summary.failed > 0 ? 'text-destructive' : ''}`}>
+                {testRun.summary.failed}
+              </span>{' '}
+              failed of {testRun.summary.total}
+            </p>
+            {failures.length > 0 && (
+              <ul className="space-y-1 font-mono max-h-48 overflow-y-auto">
+                {failures.map(r => (
+                  <li key={r.index} className="text-destructive/80">
+                    <span className="text-muted-foreground">Line {r.line}: </span>
+                    {r.input === '' ? 'ε' : r.input} expected {r.expected}
+                    {r.expectedState !== null && ` in ${formatState(r.expectedState)}`}, got {r.actual}
+                    {r.actual === 'ERROR' ? ` (${r.error})` : !isNFA && ` in ${formatState(r.finalState)}`}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {testRun.errors.length > 0 && (
+              <div className="p-3 rounded-lg bg-warning/10 border border-warning/30 space-y-1">
+                {testRun.errors.map((error, idx) => (
+                  <div key={idx} className="flex items-start gap-2">
+                    <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0 mt-0.5" />
+                    <span className="text-foreground">{error}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => navigate('/test-fsm', { state: { batch: testSuite.text.replace(/^\n+/, '') } })}
+              className="w-full"
+            >
+              Open in batch runner
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Minimization Report */}
+      {canReduce && (
+        <Card className="w-full max-w-lg mb-8 animate-fade-in border-primary/30" style={{ animationDelay: '0.15s' }}>
+          <CardContent className="pt-6 space-y-3 text-sm">
+            <div className="flex items-start gap-2">
+              <Shrink className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
+              <p className="text-foreground">
+                This machine can be reduced from <span className="font-mono font-semibold">{fsmData.states}</span> to{' '}
+                <span className="font-mono font-semibold">{minimization.dfa.states}</span> states.
+              </p>
+            </div>
+            <ul className="space-y-1 pl-6 font-mono text-muted-foreground">
+              {merges.map(group => (
+                <li key={group.join(',')}>Merge {group.map(s => stateLabel(fsmData, s)).join(', ')}</li>
+              ))}
+              {minimization.unreachable.length > 0 && (
+                <li>Drop unreachable {minimization.unreachable.map(s => stateLabel(fsmData, s)).join(', ')}</li>
+              )}
+            </ul>
+            <Button variant="outline" onClick={handleUseMinimized} className="w-full">
+              Continue with the minimized machine
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Action Buttons */}
       <div className="w-full max-w-lg space-y-4 animate-fade-in" style={{ animationDelay: '0.2s' }}>
         <h2 className="text-lg font-semibold text-foreground text-center mb-4">Choose an Action</h2>
@@ -79,8 +291,20 @@ export default function ActionsPage() {
           <span className="ml-auto text-primary-foreground/70 text-sm">Run input sequences</span>
         </Button>
 
+        {isNFA && (
+          <Button
+            onClick={handleConvertToDFA}
+            className="w-full h-14 text-base font-medium justify-start px-6"
+          >
+            <GitMerge className="w-5 h-5 mr-4" />
+            Convert to DFA
+            <span className="ml-auto text-primary-foreground/70 text-sm">Subset construction</span>
+          </Button>
+        )}
+
         <Button
           onClick={() => navigate('/generate-states')}
+          disabled={isNFA}
           className="w-full h-14 text-base font-medium justify-start px-6"
         >
           <Table className="w-5 h-5 mr-4" />
@@ -90,12 +314,91 @@ export default function ActionsPage() {
 
         <Button
           onClick={() => navigate('/generate-excel')}
+          disabled={isNFA || testsFailing}
           className="w-full h-14 text-base font-medium justify-start px-6"
         >
           <FileSpreadsheet className="w-5 h-5 mr-4" />
           Generate Experiment Sheet
-          <span className="ml-auto text-primary-foreground/70 text-sm">Export data</span>
+          <span className="ml-auto text-primary-foreground/70 text-sm">
+            {testsFailing ? 'Fix failing tests first' : 'Export data'}
+          </span>
+        </Button>
+
+        <Button
+          onClick={() => navigate('/coverage')}
+          disabled={isNFA}
+          className="w-full h-14 text-base font-medium justify-start px-6"
+        >
+          <ListChecks className="w-5 h-5 mr-4" />
+          Coverage Suite
+          <span className="ml-auto text-primary-foreground/70 text-sm">Every tile once</span>
+        </Button>
+
+        <Button
+          onClick={() => navigate('/compare')}
+          className="w-full h-14 text-base font-medium justify-start px-6"
+        >
+          <GitCompare className="w-5 h-5 mr-4" />
+          Compare Machines
+          <span className="ml-auto text-primary-foreground/70 text-sm">Equivalence, union, complement</span>
+        </Button>
+
+        <Button
+          onClick={() => navigate('/language')}
+          className="w-full h-14 text-base font-medium justify-start px-6"
+        >
+          <BarChart3 className="w-5 h-5 mr-4" />
+          Explore Language
+          <span className="ml-auto text-primary-foreground/70 text-sm">Strings per length</span>
         </Button>
+
+        <Button
+          onClick={() => navigate('/verify')}
+          className="w-full h-14 text-base font-medium justify-start px-6"
+        >
+          <ShieldCheck className="w-5 h-5 mr-4" />
+          Verify Against Oracle
+          <span className="ml-auto text-primary-foreground/70 text-sm">Every input up to N</span>
+        </Button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              className="w-full h-14 text-base font-medium justify-start px-6"
+            >
+              <FileDown className="w-5 h-5 mr-4" />
+              Export Normalized File
+              <span className="ml-auto text-muted-foreground text-sm">Canonical .fsm</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="w-[var(--radix-dropdown-menu-trigger-width)]">
+            {isPartial && (
+              <>
+                <DropdownMenuCheckboxItem
+                  checked={explicitSink}
+                  onCheckedChange={(checked) => setExplicitSink(checked === true)}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  Add explicit dead state
+                </DropdownMenuCheckboxItem>
+                <DropdownMenuSeparator />
+              </>
+            )}
+            {(Object.keys(TRANSITION_SYNTAX_LABELS) as TransitionSyntax[]).map((syntax) => (
+              <DropdownMenuItem key={syntax} onClick={() => handleExport(syntax)} className="font-mono">
+                {TRANSITION_SYNTAX_LABELS[syntax]}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {exportError && (
+          <div className="p-4 rounded-lg bg-destructive/10 border border-destructive/20 flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-destructive/80 font-mono">{exportError}</p>
+          </div>
+        )}
       </div>
 
       {/* Back Button */}
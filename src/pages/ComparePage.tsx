@@ -0,0 +1,226 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, GitCompare, Upload, AlertCircle, CheckCircle, XCircle, Combine, FlipHorizontal } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useFSM } from '@/lib/fsm-context';
+import { FSMData, FSMDiagnostic } from '@/lib/fsm-parser';
+import { parseFSMWithTests } from '@/lib/fsm-test-suite';
+import { joinSymbols } from '@/lib/fsm-tokenizer';
+import { checkEquivalence, EquivalenceResult } from '@/lib/fsm-equivalence';
+import { BOOLEAN_OPERATIONS, BooleanOperation, complementFSM, productFSM } from '@/lib/fsm-product';
+
+/**
+ * One-line description of a machine, e.g. "4 states, 0-based, nfa"
+ */
+function describeMachine(fsm: FSMData): string {
+  const parts = [`${fsm.states} states`, fsm.zeroIndexed ? '0-based' : '1-based'];
+  if (fsm.mode !== 'dfa') parts.push(fsm.mode);
+  return parts.join(', ');
+}
+
+export default function ComparePage() {
+  const navigate = useNavigate();
+  const { fsmData, fileName, setFSMData, setTestSuite } = useFSM();
+  const [other, setOther] = useState<FSMData | null>(null);
+  const [otherFileName, setOtherFileName] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<FSMDiagnostic[]>([]);
+  const [result, setResult] = useState<EquivalenceResult | null>(null);
+  const [combineError, setCombineError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!fsmData) {
+      navigate('/');
+    }
+  }, [fsmData, navigate]);
+
+  if (!fsmData) {
+    return null;
+  }
+
+  const handleFileInputChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!selectedFile) return;
+
+    const { fsm, diagnostics: found } = parseFSMWithTests(await selectedFile.text());
+    setOtherFileName(selectedFile.name);
+    setDiagnostics(found.filter(d => d.severity === 'error'));
+    setOther(fsm);
+    setResult(fsm ? checkEquivalence(fsmData, fsm) : null);
+    setCombineError(null);
+  };
+
+  // The result replaces the loaded machine, like converting an NFA on the actions page
+  // The new machine accepts a different language, so the loaded tests no longer apply
+  const loadResult = (combined: FSMData) => {
+    setFSMData(combined, `${combined.name}.fsm`);
+    setTestSuite(null);
+    navigate('/actions');
+  };
+
+  const handleCombine = (operation: BooleanOperation) => {
+    try {
+      loadResult(productFSM(fsmData, other, operation));
+    } catch (error) {
+      setCombineError(error instanceof Error ? error.message : 'Could not combine the machines');
+    }
+  };
+
+  // Space separated for multi-character alphabets, so the counterexample tokenizes back to the same word
+  const formatInput = (symbols: string[], alphabet: string[]) =>
+    (symbols.length > 0 ? joinSymbols(symbols, alphabet) : 'ε (empty input)');
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/actions')}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Actions
+          </Button>
+          <div className="flex items-center gap-2">
+            <GitCompare className="w-5 h-5 text-primary" />
+            <h1 className="text-xl font-bold font-mono text-foreground">
+              Compare: {fsmData.name}
+            </h1>
+          </div>
+        </div>
+
+        <div className="grid gap-6">
+          {/* Machines */}
+          <Card className="animate-fade-in">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base font-mono">Machines</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className="p-3 bg-muted/30 rounded-lg border border-border/50 space-y-1">
+                  <p className="text-xs text-muted-foreground uppercase tracking-wide">First (loaded)</p>
+                  <p className="font-mono font-medium text-foreground">{fileName ?? fsmData.name}</p>
+                  <p className="text-muted-foreground">{describeMachine(fsmData)}</p>
+                </div>
+                <div className="p-3 bg-muted/30 rounded-lg border border-border/50 space-y-1">
+                  <p className="text-xs text-muted-foreground uppercase tracking-wide">Second</p>
+                  {other ? (
+                    <>
+                      <p className="font-mono font-medium text-foreground">{otherFileName}</p>
+                      <p className="text-muted-foreground">{describeMachine(other)}</p>
+                    </>
+                  ) : (
+                    <p className="text-muted-foreground">No file loaded</p>
+                  )}
+                </div>
+              </div>
+
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,.fsm"
+                onChange={handleFileInputChange}
+                className="hidden"
+              />
+              <Button onClick={() => fileInputRef.current?.click()} className="w-full">
+                <Upload className="w-4 h-4 mr-2" />
+                {other ? 'Load a different file' : 'Load second file'}
+              </Button>
+
+              {/* Parse Errors */}
+              {diagnostics.length > 0 && (
+                <div className="p-4 rounded-lg bg-destructive/10 border border-destructive/20">
+                  <div className="flex items-center gap-3 mb-2">
+                    <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0" />
+                    <p className="font-medium text-destructive text-sm">{otherFileName} is not a valid FSM file</p>
+                  </div>
+                  <ul className="space-y-1 max-h-48 overflow-y-auto">
+                    {diagnostics.map((d, idx) => (
+                      <li key={idx} className="text-sm font-mono text-destructive/80">
+                        <span className="font-semibold">{d.line > 0 ? `${d.line}:${d.column}` : 'File'}</span> {d.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Result */}
+          {result && other && (
+            <Card className="animate-fade-in" style={{ animationDelay: '0.1s' }}>
+              <CardContent className="pt-6 space-y-4">
+                {result.equivalent ? (
+                  <div className="flex items-center gap-3">
+                    <CheckCircle className="w-6 h-6 text-success" />
+                    <p className="font-medium text-foreground">Both machines accept the same language</p>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-3">
+                      <XCircle className="w-6 h-6 text-destructive" />
+                      <p className="font-medium text-foreground">The machines accept different languages</p>
+                    </div>
+                    <div className="p-3 bg-muted/50 rounded-lg border border-border/50 space-y-2 text-sm">
+                      <p className="text-xs text-muted-foreground uppercase tracking-wide">Shortest counterexample</p>
+                      <p className="font-mono text-lg text-foreground">{formatInput(result.counterexample, result.alphabet)}</p>
+                      <p className="text-muted-foreground">
+                        Accepted by <span className="font-mono">{result.acceptedBy === 'first' ? fsmData.name : other.name}</span>,
+                        rejected by <span className="font-mono">{result.acceptedBy === 'first' ? other.name : fsmData.name}</span>
+                      </p>
+                    </div>
+                  </>
+                )}
+                <p className="text-sm text-muted-foreground font-mono">
+                  Compared over {'{'}{result.alphabet.join(', ')}{'}'}; symbols missing from one machine are rejected by it
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Combine */}
+          <Card className="animate-fade-in" style={{ animationDelay: '0.2s' }}>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base font-mono">Build a new machine</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(BOOLEAN_OPERATIONS) as BooleanOperation[]).map(operation => (
+                  <Button
+                    key={operation}
+                    variant="outline"
+                    disabled={!other}
+                    onClick={() => handleCombine(operation)}
+                    className="justify-start"
+                  >
+                    <Combine className="w-4 h-4 mr-2" />
+                    {BOOLEAN_OPERATIONS[operation].label}
+                  </Button>
+                ))}
+              </div>
+              <Button variant="outline" onClick={() => loadResult(complementFSM(fsmData))} className="w-full justify-start">
+                <FlipHorizontal className="w-4 h-4 mr-2" />
+                Complement of {fsmData.name} (not A)
+              </Button>
+
+              {combineError && (
+                <div className="flex items-center gap-3 p-3 rounded-lg bg-destructive/10 border border-destructive/20">
+                  <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0" />
+                  <p className="text-sm text-destructive">{combineError}</p>
+                </div>
+              )}
+              <p className="text-sm text-muted-foreground">
+                A is the loaded machine and B the second file. The result is a complete DFA that replaces the loaded machine;
+                the actions page offers to minimize it.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, ListChecks, Check, FileSpreadsheet, AlertCircle, AlertTriangle, Play } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useFSM } from '@/lib/fsm-context';
+import { runFSM, stateLabel } from '@/lib/fsm-parser';
+import { joinSymbols } from '@/lib/fsm-tokenizer';
+import { CoverageSuite, SuiteKind, TransitionRef, transitionCoverSuite, wMethodSuite } from '@/lib/fsm-coverage';
+import { ExperimentPrefill } from '@/lib/excel-generator';
+import { recordBatch } from '@/lib/fsm-batch';
+
+const SUITE_DESCRIPTIONS: Record<SuiteKind, string> = {
+  transition: 'Few inputs that together take every transition, so every tile binds in at least one experiment.',
+  'w-method': 'Reaches every state and transition, then tells the end state apart from every other state. Catches wrong transition targets, not just missing tiles.',
+};
+
+export default function CoveragePage() {
+  const navigate = useNavigate();
+  const { fsmData } = useFSM();
+  const [kind, setKind] = useState<SuiteKind>('transition');
+
+  useEffect(() => {
+    if (!fsmData) {
+      navigate('/');
+    }
+  }, [fsmData, navigate]);
+
+  if (!fsmData) {
+    return null;
+  }
+
+  let suite: CoverageSuite | null = null;
+  let error: string | null = null;
+  try {
+    suite = kind === 'transition' ? transitionCoverSuite(fsmData) : wMethodSuite(fsmData);
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Could not build the suite';
+  }
+
+  const formatInput = (symbols: string[]) => (symbols.length > 0 ? joinSymbols(symbols, fsmData.symbols) : 'ε');
+  const formatTransition = (t: TransitionRef) =>
+    `${stateLabel(fsmData, t.from)} —${t.symbol}→ ${stateLabel(fsmData, t.to)}`;
+
+  // An experiment needs at least one symbol, so the empty input stays behind
+  const experimentInputs = suite?.inputs.filter(symbols => symbols.length > 0) ?? [];
+  const totalSymbols = suite?.inputs.reduce((sum, symbols) => sum + symbols.length, 0) ?? 0;
+
+  const handleUseAsExperiments = () => {
+    const prefill: ExperimentPrefill = {
+      inputs: experimentInputs.map(symbols => joinSymbols(symbols, fsmData.symbols)),
+      namePrefix: kind === 'transition' ? 'T' : 'W',
+    };
+    navigate('/generate-excel', { state: { prefill } });
+  };
+
+  // Today's verdicts become the expectations, so the suite can be rerun after editing the machine
+  const handleRunAsBatch = () => {
+    const batch = recordBatch(fsmData, suite.inputs.map(symbols => joinSymbols(symbols, fsmData.symbols)));
+    navigate('/test-fsm', { state: { batch } });
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/actions')}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Actions
+          </Button>
+          <div className="flex items-center gap-2">
+            <ListChecks className="w-5 h-5 text-primary" />
+            <h1 className="text-xl font-bold font-mono text-foreground">
+              Coverage: {fsmData.name}
+            </h1>
+          </div>
+        </div>
+
+        <div className="grid gap-6">
+          {/* Suite Panel */}
+          <Card className="animate-fade-in">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base font-mono">Test suite</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Tabs value={kind} onValueChange={(value) => setKind(value as SuiteKind)}>
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="transition">Transition coverage</TabsTrigger>
+                  <TabsTrigger value="w-method">W-method</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <p className="text-sm text-muted-foreground">{SUITE_DESCRIPTIONS[kind]}</p>
+
+              {error && (
+                <div className="flex items-center gap-3 p-4 rounded-lg bg-destructive/10 border border-destructive/20">
+                  <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0" />
+                  <p className="text-sm text-destructive">{error}</p>
+                </div>
+              )}
+
+              {suite && (
+                <>
+                  <p className="text-sm font-mono text-foreground">
+                    {suite.inputs.length} inputs, {totalSymbols} symbols in total, taking{' '}
+                    {suite.transitions.length - suite.uncovered.length} of {suite.transitions.length} transitions
+                  </p>
+                  {suite.characterizingSet && (
+                    <p className="text-sm font-mono text-muted-foreground">
+                      Characterizing set W = {'{'}{suite.characterizingSet.map(formatInput).join(', ')}{'}'}
+                    </p>
+                  )}
+                  {suite.uncovered.length > 0 && (
+                    <div className="flex items-start gap-3 p-3 rounded-lg bg-warning/10 border border-warning/30">
+                      <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0 mt-0.5" />
+                      <p className="text-sm text-foreground">
+                        Never taken, because their state is unreachable: {suite.uncovered.map(formatTransition).join(', ')}
+                      </p>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-2 gap-3">
+                    <Button onClick={handleUseAsExperiments} disabled={experimentInputs.length === 0}>
+                      <FileSpreadsheet className="w-4 h-4 mr-2" />
+                      Use as experiments ({experimentInputs.length})
+                    </Button>
+                    <Button variant="outline" onClick={handleRunAsBatch} disabled={suite.inputs.length === 0}>
+                      <Play className="w-4 h-4 mr-2" />
+                      Run as batch tests
+                    </Button>
+                  </div>
+                  {experimentInputs.length < suite.inputs.length && (
+                    <p className="text-xs text-muted-foreground">
+                      The empty input is left out of the experiment sheet, which needs at least one symbol per experiment.
+                    </p>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Coverage Matrix */}
+          {suite && suite.inputs.length > 0 && (
+            <Card className="animate-fade-in" style={{ animationDelay: '0.1s' }}>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base font-mono">Coverage matrix</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="max-h-[32rem] overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>#</TableHead>
+                        <TableHead>Input</TableHead>
+                        <TableHead>Result</TableHead>
+                        {suite.transitions.map((t, idx) => (
+                          <TableHead key={idx} className="text-center font-mono text-xs whitespace-nowrap">
+                            {formatTransition(t)}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody className="font-mono">
+                      {suite.inputs.map((symbols, row) => {
+                        const accepted = runFSM(fsmData, joinSymbols(symbols, fsmData.symbols)).accepted;
+                        return (
+                          <TableRow key={row}>
+                            <TableCell>{row + 1}</TableCell>
+                            <TableCell className="whitespace-nowrap">{formatInput(symbols)}</TableCell>
+                            <TableCell className={accepted ? 'text-success' : 'text-destructive'}>
+                              {accepted ? 'ACCEPT' : 'REJECT'}
+                            </TableCell>
+                            {suite.matrix[row].map((covered, col) => (
+                              <TableCell key={col} className="text-center">
+                                {covered && <Check className="w-4 h-4 text-success inline" />}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
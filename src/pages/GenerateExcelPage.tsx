@@ -1,14 +1,28 @@
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useEffect, useState } from 'react';
-import { ArrowLeft, ArrowRight, FileSpreadsheet, Download, AlertCircle } from 'lucide-react';
+import { ArrowLeft, ArrowRight, FileSpreadsheet, Download, AlertCircle, Wand2 } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useFSM } from '@/lib/fsm-context';
-import { evaluateFSM, generateExcelWorkbook, downloadExcel, generateFilename, ExperimentInput } from '@/lib/excel-generator';
+import { stateLabel, hasOutputs } from '@/lib/fsm-parser';
+import { addSinkState } from '@/lib/fsm-completion';
+import { evaluateFSM, generateExcelWorkbook, downloadExcel, generateFilename, ExperimentInput, ExperimentPrefill } from '@/lib/excel-generator';
+import { PositionLabelScheme, POSITION_LABEL_SCHEMES, DEFAULT_SEPARATOR } from '@/lib/tile-naming';
+import { computeWitnesses, shortestInput } from '@/lib/fsm-witness';
+import { joinSymbols, tokenizeInput } from '@/lib/fsm-tokenizer';
+import { runTestSuite } from '@/lib/fsm-test-suite';
 
 type Step = 'count' | 'experiments' | 'concentrations' | 'generate';
 
@@ -17,23 +31,31 @@ interface ExperimentData {
   fsmInput: string;
   result: 'ACCEPT' | 'REJECT' | null;
   finalState: number | null;
+  output: string | null;
+  inputError: string | null;
 }
 
 export default function GenerateExcelPage() {
   const navigate = useNavigate();
-  const { fsmData } = useFSM();
+  const location = useLocation();
+  const { fsmData, testSuite, explicitSink, setExplicitSink } = useFSM();
+  const prefill = (location.state as { prefill?: ExperimentPrefill } | null)?.prefill;
 
   // Step state
   const [currentStep, setCurrentStep] = useState<Step>('count');
   
   // Form data
-  const [experimentCount, setExperimentCount] = useState<number>(1);
+  const [experimentCount, setExperimentCount] = useState<number>(prefill?.inputs.length || 1);
   
   const [experiments, setExperiments] = useState<ExperimentData[]>([]);
   const [stockConcentration, setStockConcentration] = useState<number>(50);
   const [targetConcentration, setTargetConcentration] = useState<number>(1);
   const [totalVolume, setTotalVolume] = useState<number>(80);
   const [reportEveryPosition, setReportEveryPosition] = useState<boolean>(false);
+  const [pruneTiles, setPruneTiles] = useState<boolean>(false);
+  const [labelScheme, setLabelScheme] = useState<PositionLabelScheme>('letters');
+  const [showWitnesses, setShowWitnesses] = useState<boolean>(false);
+  const [separateTileParts, setSeparateTileParts] = useState<boolean>(false);
   
   // Error state
   const [error, setError] = useState<string | null>(null);
@@ -49,15 +71,58 @@ export default function GenerateExcelPage() {
     return null;
   }
 
+  // Partial DFAs can route missing transitions to an explicit dead state for tiles and final states
+  const machine = fsmData.mode === 'partial' && explicitSink ? addSinkState(fsmData) : fsmData;
+
+  // Pages such as the coverage suite link here directly, so failing tests are checked again
+  const testRun = testSuite ? runTestSuite(fsmData, testSuite) : null;
+  const testsFailing = testRun !== null && (testRun.summary.failed > 0 || testRun.errors.length > 0);
+
+  // Shortest witnesses per state, and the shortest non-empty input ending in each state for one-click inputs
+  const deterministic = machine.mode !== 'nfa';
+  const witnesses = deterministic && currentStep === 'experiments' ? computeWitnesses(machine) : [];
+  const endingIn = witnesses
+    .map(w => ({ state: w.state, symbols: shortestInput(machine, machine.startstate, s => s === w.state, true) }))
+    .filter(w => w.symbols !== null);
+  const formatWitness = (symbols: string[] | null) =>
+    symbols === null ? '—' : symbols.length === 0 ? 'ε' : joinSymbols(symbols, machine.symbols);
+
+  // Validate the experiment's FSM input and get its final state
+  const evaluateExperiment = (experiment: ExperimentData) => {
+    experiment.inputError = null;
+    if (!experiment.fsmInput.trim()) return;
+    try {
+      const evalResult = evaluateFSM(machine, experiment.fsmInput.trim());
+      const valid = !evalResult.error;
+      experiment.result = valid ? evalResult.result : null;
+      experiment.finalState = valid ? evalResult.finalState : null;
+      experiment.output = valid ? evalResult.output : null;
+      // Without an explicit dead state there are no tiles past the missing transition
+      const fellOff = !valid && machine.mode === 'partial' && !tokenizeInput(experiment.fsmInput.trim(), machine.symbols).error;
+      experiment.inputError = fellOff
+        ? `${evalResult.error}; turn on the explicit dead state in step 1 to give it tiles`
+        : evalResult.error ?? null;
+    } catch {
+      experiment.result = null;
+      experiment.finalState = null;
+      experiment.output = null;
+    }
+  };
+
   const initializeExperiments = () => {
     const newExperiments: ExperimentData[] = [];
     for (let i = 0; i < experimentCount; i++) {
-      newExperiments.push({
-        name: '',
-        fsmInput: '',
+      const prefilled = prefill?.inputs[i];
+      const experiment: ExperimentData = {
+        name: prefilled !== undefined ? `${prefill.namePrefix ?? 'T'}${i + 1}` : '',
+        fsmInput: prefilled ?? '',
         result: null,
         finalState: null,
-      });
+        output: null,
+        inputError: null,
+      };
+      evaluateExperiment(experiment);
+      newExperiments.push(experiment);
     }
     setExperiments(newExperiments);
   };
@@ -66,16 +131,8 @@ export default function GenerateExcelPage() {
     const updated = [...experiments];
     updated[index] = { ...updated[index], [field]: value };
     
-    // If updating fsmInput, validate it and get final state
-    if (field === 'fsmInput' && value.trim()) {
-      try {
-        const evalResult = evaluateFSM(fsmData, value.trim());
-        updated[index].result = evalResult.result;
-        updated[index].finalState = evalResult.finalState;
-      } catch {
-        updated[index].result = null;
-        updated[index].finalState = null;
-      }
+    if (field === 'fsmInput') {
+      evaluateExperiment(updated[index]);
     }
     
     setExperiments(updated);
@@ -93,7 +150,7 @@ export default function GenerateExcelPage() {
         return false;
       }
       if (exp.result === null) {
-        setError(`Experiment ${i + 1} has an invalid FSM input`);
+        setError(`Experiment ${i + 1} has an invalid FSM input${exp.inputError ? `: ${exp.inputError}` : ''}`);
         return false;
       }
     }
@@ -169,7 +226,12 @@ export default function GenerateExcelPage() {
         targetConcentration,
         totalVolume,
         reportEveryPosition,
-      }, fsmData);
+        pruneUnreachableTiles: pruneTiles,
+        tileNaming: {
+          scheme: labelScheme,
+          separator: separateTileParts ? DEFAULT_SEPARATOR : undefined,
+        },
+      }, machine);
       
       const filename = generateFilename();
       downloadExcel(workbook, filename);
@@ -255,6 +317,17 @@ export default function GenerateExcelPage() {
             </Alert>
           )}
 
+          {testsFailing && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {testRun.summary.failed} of {testRun.summary.total} tests in {testSuite.source} fail
+                {testRun.errors.length > 0 && ` and ${testRun.errors.length} row(s) could not be read`}; fix the machine
+                or its tests before downloading a sheet.
+              </AlertDescription>
+            </Alert>
+          )}
+
           {/* Step Content */}
           {currentStep === 'count' && (
             <div className="space-y-4">
@@ -269,6 +342,12 @@ export default function GenerateExcelPage() {
                   onChange={(e) => setExperimentCount(parseInt(e.target.value) || 1)}
                   className="font-mono"
                 />
+                {prefill && (
+                  <p className="text-xs text-muted-foreground">
+                    The first {Math.min(prefill.inputs.length, experimentCount)} experiments are filled in from the
+                    {' '}{prefill.inputs.length} suggested inputs.
+                  </p>
+                )}
               </div>
               <div className="flex items-center justify-between rounded-lg border p-4">
                 <div className="space-y-0.5">
@@ -284,20 +363,124 @@ export default function GenerateExcelPage() {
                   onCheckedChange={setReportEveryPosition}
                 />
               </div>
+              <div className="flex items-center justify-between rounded-lg border p-4">
+                <div className="space-y-0.5">
+                  <Label htmlFor="pruneTiles">Skip tiles that can never bind?</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Enable to order competing tiles only for states some input can reach at that position.
+                  </p>
+                </div>
+                <Switch
+                  id="pruneTiles"
+                  checked={pruneTiles}
+                  onCheckedChange={setPruneTiles}
+                />
+              </div>
+              <div className="flex items-center justify-between rounded-lg border p-4 gap-4">
+                <div className="space-y-0.5">
+                  <Label htmlFor="labelScheme">Tile position labels</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Letters continue past H as AA, AB, … for long inputs. Numeric labels always separate
+                    tile parts, e.g. 1-P10-2.
+                  </p>
+                </div>
+                <Select value={labelScheme} onValueChange={(value) => setLabelScheme(value as PositionLabelScheme)}>
+                  <SelectTrigger id="labelScheme" className="w-48 font-mono text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(POSITION_LABEL_SCHEMES) as PositionLabelScheme[]).map((scheme) => (
+                      <SelectItem key={scheme} value={scheme} className="font-mono">
+                        {POSITION_LABEL_SCHEMES[scheme]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {labelScheme === 'letters' && (
+                <div className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="separateTileParts">Separate tile parts?</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Write tiles as 11-B-2 instead of 11B2.
+                    </p>
+                  </div>
+                  <Switch
+                    id="separateTileParts"
+                    checked={separateTileParts}
+                    onCheckedChange={setSeparateTileParts}
+                  />
+                </div>
+              )}
+              {fsmData.mode === 'partial' && (
+                <div className="flex items-center justify-between rounded-lg border p-4">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="explicitSink">Add an explicit dead state?</Label>
+                    <p className="text-xs text-muted-foreground">
+                      This FSM is partial. Enable to route missing transitions to a dead state so that it
+                      gets competing tiles and can be reported as a final state.
+                    </p>
+                  </div>
+                  <Switch
+                    id="explicitSink"
+                    checked={explicitSink}
+                    onCheckedChange={setExplicitSink}
+                  />
+                </div>
+              )}
             </div>
           )}
 
 
           {currentStep === 'experiments' && (
             <div className="space-y-4 max-h-[400px] overflow-y-auto pr-2">
+              {witnesses.length > 0 && (
+                <div className="rounded-lg border">
+                  <Button
+                    variant="ghost"
+                    onClick={() => setShowWitnesses(!showWitnesses)}
+                    className="w-full justify-start text-sm"
+                  >
+                    <Wand2 className="w-4 h-4 mr-2" />
+                    {showWitnesses ? 'Hide' : 'Show'} shortest witnesses per state
+                  </Button>
+                  {showWitnesses && (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>State</TableHead>
+                          <TableHead>Reach from start</TableHead>
+                          <TableHead>Then accept</TableHead>
+                          <TableHead>Then reject</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody className="font-mono">
+                        {witnesses.map(w => (
+                          <TableRow key={w.state}>
+                            <TableCell>{stateLabel(machine, w.state)}</TableCell>
+                            <TableCell>{formatWitness(w.reach)}</TableCell>
+                            <TableCell>{formatWitness(w.toAccept)}</TableCell>
+                            <TableCell>{formatWitness(w.toReject)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </div>
+              )}
               {experiments.map((exp, idx) => (
                 <Card key={idx} className="p-4 bg-muted/30">
                   <div className="flex items-center justify-between mb-3">
                     <span className="font-mono font-medium">Experiment {idx + 1}</span>
                     <div className="flex items-center gap-2">
+                      {exp.output !== null && hasOutputs(machine) && (
+                        <span className="px-2 py-1 rounded text-xs font-mono bg-muted">
+                          Output: {exp.output || '—'}
+                        </span>
+                      )}
                       {exp.finalState !== null && (
                         <span className="px-2 py-1 rounded text-xs font-mono bg-muted">
-                          State: q{exp.finalState}
+                          State: {stateLabel(machine, exp.finalState)}
                         </span>
                       )}
                       {exp.result && (
@@ -325,9 +508,32 @@ export default function GenerateExcelPage() {
                       />
                     </div>
                     <div className="space-y-1">
-                      <Label htmlFor={`exp-input-${idx}`} className="text-xs">
-                        FSM Input Value (e.g., 1110 or 0000)
-                      </Label>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor={`exp-input-${idx}`} className="text-xs">
+                          FSM Input Value (e.g., 1110 or 0000)
+                        </Label>
+                        {endingIn.length > 0 && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+                                <Wand2 className="w-3 h-3 mr-1" />
+                                Insert witness
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {endingIn.map(w => (
+                                <DropdownMenuItem
+                                  key={w.state}
+                                  onClick={() => updateExperiment(idx, 'fsmInput', joinSymbols(w.symbols, machine.symbols))}
+                                  className="font-mono text-xs"
+                                >
+                                  Ends in {stateLabel(machine, w.state)}: {formatWitness(w.symbols)}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                      </div>
                       <Input
                         id={`exp-input-${idx}`}
                         placeholder="1110"
@@ -335,6 +541,9 @@ export default function GenerateExcelPage() {
                         onChange={(e) => updateExperiment(idx, 'fsmInput', e.target.value)}
                         className="font-mono"
                       />
+                      {exp.inputError && (
+                        <p className="text-xs text-destructive font-mono">{exp.inputError}</p>
+                      )}
                     </div>
                   </div>
                 </Card>
@@ -433,7 +642,7 @@ export default function GenerateExcelPage() {
 
               <Button
                 onClick={handleGenerate}
-                disabled={isGenerating}
+                disabled={isGenerating || testsFailing}
                 className="w-full h-12"
               >
                 <Download className="w-5 h-5 mr-2" />
@@ -1,17 +1,25 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Play, RotateCcw, Table } from 'lucide-react';
+import { ArrowLeft, Play, RotateCcw, Table, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { useFSM } from '@/lib/fsm-context';
 import { generateFSMSteps, GenerationResult } from '@/lib/fsm-step-generator';
+import { formatAcceptStates, stateLabel } from '@/lib/fsm-parser';
+import { addSinkState } from '@/lib/fsm-completion';
+import { positionLabel, PositionLabelScheme, POSITION_LABEL_SCHEMES } from '@/lib/tile-naming';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 export default function GenerateStatesPage() {
   const navigate = useNavigate();
-  const { fsmData } = useFSM();
+  const { fsmData, explicitSink, setExplicitSink } = useFSM();
   const [input, setInput] = useState('');
   const [result, setResult] = useState<GenerationResult | null>(null);
+  const [prune, setPrune] = useState(false);
+  const [labelScheme, setLabelScheme] = useState<PositionLabelScheme>('letters');
 
   useEffect(() => {
     if (!fsmData) {
@@ -23,10 +31,13 @@ export default function GenerateStatesPage() {
     return null;
   }
 
+  // Partial DFAs can compete with a tile for every state by routing missing transitions to a dead state
+  const machine = fsmData.mode === 'partial' && explicitSink ? addSinkState(fsmData) : fsmData;
+
   const handleGenerate = () => {
     if (!input.trim()) return;
     
-    const generationResult = generateFSMSteps(fsmData, input);
+    const generationResult = generateFSMSteps(machine, input, { prune });
     setResult(generationResult);
   };
 
@@ -89,13 +100,66 @@ export default function GenerateStatesPage() {
 
               {/* Valid symbols hint */}
               <p className="text-sm text-muted-foreground mt-3 font-mono">
-                Valid symbols: {fsmData.symbols.join(', ')} (chunk size: {fsmData.symbols[0]?.length || 1})
+                Valid symbols: {fsmData.symbols.join(', ')} (longest match first; spaces between symbols are ignored)
               </p>
+
+              {result?.error && (
+                <div className="mt-3 p-3 rounded-lg bg-destructive/10 border border-destructive/20 flex items-start gap-2">
+                  <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0 mt-0.5" />
+                  <p className="text-sm text-destructive/80 font-mono">{result.error}</p>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2 mt-3">
+                <Switch
+                  id="prune"
+                  checked={prune}
+                  onCheckedChange={(checked) => {
+                    setPrune(checked);
+                    setResult(null);
+                  }}
+                />
+                <Label htmlFor="prune" className="text-sm">
+                  Only show states reachable at each position
+                </Label>
+              </div>
+
+              <div className="flex items-center gap-2 mt-3">
+                <Label htmlFor="labelScheme" className="text-sm">Position labels</Label>
+                <Select value={labelScheme} onValueChange={(value) => setLabelScheme(value as PositionLabelScheme)}>
+                  <SelectTrigger id="labelScheme" className="w-48 h-8 font-mono text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(POSITION_LABEL_SCHEMES) as PositionLabelScheme[]).map((scheme) => (
+                      <SelectItem key={scheme} value={scheme} className="font-mono">
+                        {POSITION_LABEL_SCHEMES[scheme]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {fsmData.mode === 'partial' && (
+                <div className="flex items-center gap-2 mt-3">
+                  <Switch
+                    id="explicitSink"
+                    checked={explicitSink}
+                    onCheckedChange={(checked) => {
+                      setExplicitSink(checked);
+                      setResult(null);
+                    }}
+                  />
+                  <Label htmlFor="explicitSink" className="text-sm">
+                    Add an explicit dead state for missing transitions
+                  </Label>
+                </div>
+              )}
             </CardContent>
           </Card>
 
           {/* Result Panel */}
-          {result && (
+          {result && !result.error && (
             <Card className="animate-fade-in" style={{ animationDelay: '0.1s' }}>
               <CardHeader className="pb-3">
                 <CardTitle className="text-base font-mono flex items-center gap-2">
@@ -109,13 +173,18 @@ export default function GenerateStatesPage() {
                 {/* Competitive Complexity Summary */}
                 <div className="mb-4 p-3 bg-muted/50 rounded-lg border border-border/50">
                   <p className="text-xs text-muted-foreground uppercase tracking-wide mb-2">Competitive Complexity</p>
+                  {result.pruned && (
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Pruning kept {result.steps.reduce((sum, step) => sum + step.states.length, 0)} of{' '}
+                      {result.steps.reduce((sum, step) => sum + step.unprunedCount, 0)} competing states
+                    </p>
+                  )}
                   <div className="flex flex-wrap gap-2">
                     {result.steps.map((step) => {
-                      const posLabels = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
                       const tilesWithTransition = step.states.filter(s => s.nextState !== null).length;
                       return (
                         <div key={step.position} className="flex items-center gap-1.5 px-2.5 py-1.5 bg-background rounded border border-border text-sm font-mono">
-                          <span className="text-muted-foreground">{posLabels[step.position]}:</span>
+                          <span className="text-muted-foreground">{positionLabel(step.position, labelScheme)}:</span>
                           <span className="font-semibold text-foreground">{tilesWithTransition}</span>
                         </div>
                       );
@@ -147,7 +216,7 @@ export default function GenerateStatesPage() {
                           >
                             <div className="space-y-1">
                               <p className="text-xs text-muted-foreground uppercase tracking-wide">Current State</p>
-                              <p className="font-mono font-medium text-foreground">q{state.currentState}</p>
+                              <p className="font-mono font-medium text-foreground">{stateLabel(machine, state.currentState)}</p>
                             </div>
                             <div className="space-y-1">
                               <p className="text-xs text-muted-foreground uppercase tracking-wide">Input</p>
@@ -156,7 +225,7 @@ export default function GenerateStatesPage() {
                             <div className="space-y-1">
                               <p className="text-xs text-muted-foreground uppercase tracking-wide">Next State</p>
                               <p className={`font-mono font-medium ${state.nextState !== null ? 'text-foreground' : 'text-muted-foreground'}`}>
-                                {state.nextState !== null ? `q${state.nextState}` : '—'}
+                                {state.nextState !== null ? stateLabel(machine, state.nextState) : '—'}
                               </p>
                             </div>
                             <div className="space-y-1">
@@ -192,11 +261,11 @@ export default function GenerateStatesPage() {
                 </div>
                 <div className="space-y-1">
                   <p className="text-muted-foreground">Start State</p>
-                  <p className="font-mono font-medium text-foreground">q{fsmData.startstate}</p>
+                  <p className="font-mono font-medium text-foreground">{stateLabel(fsmData, fsmData.startstate)}</p>
                 </div>
                 <div className="space-y-1">
-                  <p className="text-muted-foreground">Accept State</p>
-                  <p className="font-mono font-medium text-foreground">q{fsmData.acceptstate}</p>
+                  <p className="text-muted-foreground">Accept States</p>
+                  <p className="font-mono font-medium text-foreground">{formatAcceptStates(fsmData)}</p>
                 </div>
               </div>
             </CardContent>
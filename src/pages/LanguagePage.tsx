@@ -0,0 +1,205 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, BarChart3, Play } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useFSM } from '@/lib/fsm-context';
+import { joinSymbols } from '@/lib/fsm-tokenizer';
+import { countByLength, enumerateStrings, EnumeratedString, EnumerationResult, LengthCount } from '@/lib/fsm-language';
+
+// Counting is cheap, listing is not: lengths beyond what the list can hold are only counted
+const MAX_COUNT_LENGTH = 256;
+const LIST_LIMIT = 5000;
+
+const chartConfig = {
+  accepted: { label: 'Accepted', color: 'hsl(var(--success))' },
+  rejected: { label: 'Rejected', color: 'hsl(var(--destructive))' },
+  share: { label: 'Accepted %', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+export default function LanguagePage() {
+  const navigate = useNavigate();
+  const { fsmData } = useFSM();
+  const [maxLength, setMaxLength] = useState(6);
+  const [counts, setCounts] = useState<LengthCount[] | null>(null);
+  const [listing, setListing] = useState<EnumerationResult | null>(null);
+  const [showShare, setShowShare] = useState(false);
+
+  useEffect(() => {
+    if (!fsmData) {
+      navigate('/');
+    }
+  }, [fsmData, navigate]);
+
+  if (!fsmData) {
+    return null;
+  }
+
+  const formatString = (symbols: string[]) => (symbols.length > 0 ? joinSymbols(symbols, fsmData.symbols) : 'ε');
+
+  const handleRun = () => {
+    const length = Math.min(Math.max(maxLength, 0), MAX_COUNT_LENGTH);
+    setCounts(countByLength(fsmData, length));
+    setListing(enumerateStrings(fsmData, length, LIST_LIMIT));
+  };
+
+  const chartData = counts?.map(count => ({
+    length: count.length,
+    accepted: Number(count.accepted),
+    rejected: Number(count.rejected),
+    share: Math.round(count.share * 10000) / 100,
+  }));
+  const accepted = listing?.strings.filter(s => s.accepted) ?? [];
+  const rejected = listing?.strings.filter(s => !s.accepted) ?? [];
+
+  const renderStrings = (strings: EnumeratedString[]) => (
+    <div className="flex flex-wrap gap-2 max-h-80 overflow-auto">
+      {strings.map((s, idx) => (
+        <code key={idx} className="px-2 py-1 bg-muted rounded text-sm font-mono">
+          {formatString(s.symbols)}
+        </code>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/actions')}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Actions
+          </Button>
+          <div className="flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-primary" />
+            <h1 className="text-xl font-bold font-mono text-foreground">
+              Language: {fsmData.name}
+            </h1>
+          </div>
+        </div>
+
+        <div className="grid gap-6">
+          {/* Length Panel */}
+          <Card className="animate-fade-in">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base font-mono">Strings up to length</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="flex gap-3">
+                <Input
+                  type="number"
+                  min={0}
+                  max={MAX_COUNT_LENGTH}
+                  value={maxLength}
+                  onChange={(e) => setMaxLength(parseInt(e.target.value) || 0)}
+                  className="font-mono text-lg"
+                />
+                <Button onClick={handleRun} className="px-6">
+                  <Play className="w-4 h-4 mr-2" />
+                  Enumerate
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground mt-3 font-mono">
+                Counts go up to length {MAX_COUNT_LENGTH}; the lists stop after {LIST_LIMIT} strings
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Counts per Length */}
+          {counts && chartData && (
+            <Card className="animate-fade-in" style={{ animationDelay: '0.1s' }}>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base font-mono flex items-center justify-between">
+                  Strings per length
+                  <span className="flex items-center gap-2 text-sm font-normal">
+                    <Switch id="showShare" checked={showShare} onCheckedChange={setShowShare} />
+                    <Label htmlFor="showShare">Accepted share</Label>
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ChartContainer config={chartConfig} className="h-64 w-full">
+                  <BarChart data={chartData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="length" tickLine={false} axisLine={false} />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      domain={showShare ? [0, 100] : [0, 'auto']}
+                      unit={showShare ? '%' : undefined}
+                    />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    {showShare ? (
+                      <Bar dataKey="share" fill="var(--color-share)" radius={4} />
+                    ) : (
+                      <>
+                        <Bar dataKey="accepted" stackId="count" fill="var(--color-accepted)" />
+                        <Bar dataKey="rejected" stackId="count" fill="var(--color-rejected)" />
+                      </>
+                    )}
+                  </BarChart>
+                </ChartContainer>
+
+                <div className="max-h-64 overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Length</TableHead>
+                        <TableHead className="text-right">Accepted</TableHead>
+                        <TableHead className="text-right">Rejected</TableHead>
+                        <TableHead className="text-right">Share</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody className="font-mono">
+                      {counts.map(count => (
+                        <TableRow key={count.length}>
+                          <TableCell>{count.length}</TableCell>
+                          <TableCell className="text-right">{count.accepted.toString()}</TableCell>
+                          <TableCell className="text-right">{count.rejected.toString()}</TableCell>
+                          <TableCell className="text-right">{(count.share * 100).toFixed(2)}%</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* String Lists */}
+          {listing && (
+            <Card className="animate-fade-in" style={{ animationDelay: '0.2s' }}>
+              <CardContent className="pt-6">
+                <Tabs defaultValue="accepted">
+                  <TabsList className="grid w-full grid-cols-2 mb-4">
+                    <TabsTrigger value="accepted">Accepted ({accepted.length})</TabsTrigger>
+                    <TabsTrigger value="rejected">Rejected ({rejected.length})</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="accepted" className="mt-0">{renderStrings(accepted)}</TabsContent>
+                  <TabsContent value="rejected" className="mt-0">{renderStrings(rejected)}</TabsContent>
+                </Tabs>
+                {listing.truncated && (
+                  <p className="text-sm text-muted-foreground mt-4">
+                    Listing stopped after {LIST_LIMIT} strings; the counts above still cover every length.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,72 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Play, RotateCcw, CheckCircle, XCircle, Terminal } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Play, RotateCcw, CheckCircle, XCircle, Terminal, Upload, FileDown, ArrowUpDown, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useFSM } from '@/lib/fsm-context';
-import { runFSM } from '@/lib/fsm-parser';
+import { runFSM, isAcceptState, stateLabel, hasOutputs } from '@/lib/fsm-parser';
+import { runNFA, formatStateSet, NFARunResult, NFAStep } from '@/lib/fsm-nfa';
+import { analyzeStructure } from '@/lib/fsm-analysis';
+import { tokenizeInput } from '@/lib/fsm-tokenizer';
+import {
+  BatchResult,
+  BatchSortKey,
+  batchResultsToCSV,
+  batchResultsToJSON,
+  downloadBatchResults,
+  parseBatch,
+  runBatch,
+  sortBatchResults,
+  summarizeBatch,
+} from '@/lib/fsm-batch';
 import FSMVisualizer from '@/components/FSMVisualizer';
 
+const BATCH_COLUMNS: { key: BatchSortKey; label: string }[] = [
+  { key: 'index', label: '#' },
+  { key: 'input', label: 'Input' },
+  { key: 'expected', label: 'Expected' },
+  { key: 'actual', label: 'Actual' },
+  { key: 'finalState', label: 'Final state' },
+  { key: 'passed', label: 'Result' },
+];
+
 interface TestResult {
   accepted: boolean;
   endState: number;
+  output: string;
   error?: string;
-  path: { state: number; symbol?: string }[];
+  path: { state: number; symbol?: string; output?: string }[];
 }
 
 export default function TestFSMPage() {
   const navigate = useNavigate();
+  const location = useLocation();
   const { fsmData } = useFSM();
   const [input, setInput] = useState('');
   const [result, setResult] = useState<TestResult | null>(null);
+  const [nfaResult, setNfaResult] = useState<NFARunResult | null>(null);
   const [currentState, setCurrentState] = useState<number | undefined>(undefined);
+  const [activeStates, setActiveStates] = useState<number[] | undefined>(undefined);
   const [highlightedTransition, setHighlightedTransition] = useState<{ from: number; symbol: string } | undefined>(undefined);
   const [isAnimating, setIsAnimating] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
+  // Batch mode: text may arrive from another page, e.g. a coverage suite
+  const [batchText, setBatchText] = useState<string>((location.state as { batch?: string } | null)?.batch ?? '');
+  const [batchErrors, setBatchErrors] = useState<string[]>([]);
+  const [batchResults, setBatchResults] = useState<BatchResult[] | null>(null);
+  const [sortKey, setSortKey] = useState<BatchSortKey>('index');
+  const [sortDescending, setSortDescending] = useState(false);
+  const [replayedIndex, setReplayedIndex] = useState<number | null>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (!fsmData) {
@@ -35,10 +78,30 @@ export default function TestFSMPage() {
     return null;
   }
 
+  const tokenized = tokenizeInput(input, fsmData.symbols);
+  const multiCharacter = fsmData.symbols.some(symbol => symbol.length > 1);
+  const analysis = analyzeStructure(fsmData);
+  const flaggedStates = [...new Set([...analysis.unreachable, ...analysis.cannotAccept])];
+
   const handleTest = () => {
     if (!input.trim()) return;
+    setReplayedIndex(null);
+    runInput(input);
+  };
 
-    const testResult = runFSM(fsmData, input);
+  const runInput = (value: string) => {
+    if (fsmData.mode === 'nfa') {
+      const nfaRun = runNFA(fsmData, value);
+      setNfaResult(nfaRun);
+      setResult(null);
+
+      setIsAnimating(true);
+      setCurrentStep(0);
+      animateTrace(nfaRun.trace, 0);
+      return;
+    }
+
+    const testResult = runFSM(fsmData, value);
     setResult(testResult);
     
     // Start animation
@@ -72,15 +135,76 @@ export default function TestFSMPage() {
     }, 800);
   };
 
+  // NFA runs highlight the whole active set at each step
+  const animateTrace = (trace: NFAStep[], step: number) => {
+    if (step >= trace.length) {
+      setIsAnimating(false);
+      return;
+    }
+
+    setActiveStates(trace[step].states);
+    setCurrentStep(step);
+
+    setTimeout(() => {
+      animateTrace(trace, step + 1);
+    }, 800);
+  };
+
   const handleReset = () => {
     setInput('');
     setResult(null);
+    setNfaResult(null);
     setCurrentState(undefined);
+    setActiveStates(undefined);
     setHighlightedTransition(undefined);
     setIsAnimating(false);
     setCurrentStep(0);
+    setReplayedIndex(null);
   };
 
+  const handleRunBatch = () => {
+    const { cases, errors } = parseBatch(batchText, fsmData);
+    setBatchErrors(errors);
+    setBatchResults(runBatch(fsmData, cases));
+    setReplayedIndex(null);
+  };
+
+  const handleCsvChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!selectedFile) return;
+    setBatchText(await selectedFile.text());
+    setBatchResults(null);
+    setBatchErrors([]);
+  };
+
+  const handleSort = (key: BatchSortKey) => {
+    setSortDescending(key === sortKey ? !sortDescending : false);
+    setSortKey(key);
+  };
+
+  // Clicking a row runs its input again with the animation, in the visualizer at the top
+  const handleReplay = (row: BatchResult) => {
+    if (isAnimating) return;
+    setInput(row.input);
+    setReplayedIndex(row.index);
+    runInput(row.input);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!batchResults) return;
+    if (format === 'csv') {
+      downloadBatchResults(batchResultsToCSV(fsmData, batchResults), `${fsmData.name}_batch.csv`, 'text/csv');
+    } else {
+      downloadBatchResults(batchResultsToJSON(fsmData, batchResults), `${fsmData.name}_batch.json`, 'application/json');
+    }
+  };
+
+  const batchSummary = batchResults ? summarizeBatch(batchResults) : null;
+  const sortedResults = batchResults ? sortBatchResults(batchResults, sortKey, sortDescending) : [];
+  const formatState = (state: number | null) => (state === null ? '—' : stateLabel(fsmData, state));
+
   return (
     <div className="min-h-screen bg-background p-6">
       <div className="max-w-4xl mx-auto">
@@ -113,6 +237,8 @@ export default function TestFSMPage() {
               <FSMVisualizer
                 fsm={fsmData}
                 currentState={currentState}
+                activeStates={activeStates}
+                flaggedStates={flaggedStates}
                 highlightedTransition={highlightedTransition}
               />
             </CardContent>
@@ -153,6 +279,13 @@ export default function TestFSMPage() {
               <p className="text-sm text-muted-foreground mt-3 font-mono">
                 Valid symbols: {fsmData.symbols.join(', ')}
               </p>
+              {tokenized.error ? (
+                <p className="text-sm text-destructive mt-1 font-mono">{tokenized.error}</p>
+              ) : multiCharacter && tokenized.symbols.length > 0 && (
+                <p className="text-sm text-muted-foreground mt-1 font-mono">
+                  Reads as: {tokenized.symbols.join(' · ')}
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -180,8 +313,13 @@ export default function TestFSMPage() {
                         {result.accepted ? 'ACCEPTED' : 'REJECTED'}
                       </h3>
                       <p className="text-muted-foreground">
-                        {result.error || `Ended at state q${result.endState}`}
+                        {result.error || `Ended at state ${stateLabel(fsmData, result.endState)}`}
                       </p>
+                      {hasOutputs(fsmData) && (
+                        <p className="text-muted-foreground">
+                          Output: <span className="font-mono text-foreground">{result.output || '—'}</span>
+                        </p>
+                      )}
                     </div>
                   </div>
 
@@ -190,7 +328,7 @@ export default function TestFSMPage() {
                     <p className="text-sm text-muted-foreground mb-1">Execution Path</p>
                     <div className="flex items-center gap-1 font-mono text-sm flex-wrap justify-end">
                       {result.path.map((step, idx) => {
-                        const isAcceptState = step.state === fsmData.acceptstate;
+                        const isAccept = isAcceptState(fsmData, step.state);
                         const isCurrentAnimating = idx === currentStep && isAnimating;
                         const isPast = idx < currentStep || !isAnimating;
                         
@@ -201,15 +339,15 @@ export default function TestFSMPage() {
                                 isCurrentAnimating
                                   ? 'bg-warning text-warning-foreground'
                                   : isPast
-                                    ? isAcceptState 
+                                    ? isAccept 
                                       ? 'bg-success/20 text-success border border-success/30'
                                       : 'bg-destructive/20 text-destructive border border-destructive/30'
                                     : 'bg-muted text-muted-foreground'
                               }`}
                             >
-                              q{step.state}
+                              {stateLabel(fsmData, step.state)}
                               {isPast && !isCurrentAnimating && (
-                                isAcceptState 
+                                isAccept 
                                   ? <CheckCircle className="w-3 h-3" />
                                   : <XCircle className="w-3 h-3" />
                               )}
@@ -226,6 +364,197 @@ export default function TestFSMPage() {
               </CardContent>
             </Card>
           )}
+
+          {/* NFA Result Panel */}
+          {nfaResult && (
+            <Card 
+              className={`animate-fade-in border-2 ${
+                nfaResult.accepted 
+                  ? 'border-success bg-success/5' 
+                  : 'border-destructive bg-destructive/5'
+              }`}
+            >
+              <CardContent className="pt-6">
+                <div className="flex items-center gap-4 mb-4">
+                  {nfaResult.accepted ? (
+                    <CheckCircle className="w-10 h-10 text-success" />
+                  ) : (
+                    <XCircle className="w-10 h-10 text-destructive" />
+                  )}
+                  <div>
+                    <h3 className={`text-2xl font-bold font-mono ${
+                      nfaResult.accepted ? 'text-success' : 'text-destructive'
+                    }`}>
+                      {nfaResult.accepted ? 'ACCEPTED' : 'REJECTED'}
+                    </h3>
+                    <p className="text-muted-foreground">
+                      {nfaResult.error || `Active states at end: ${formatStateSet(fsmData, nfaResult.endStates)}`}
+                    </p>
+                  </div>
+                </div>
+
+                {/* Active set trace */}
+                <p className="text-sm text-muted-foreground mb-1">Active States</p>
+                <div className="flex items-center gap-1 font-mono text-sm flex-wrap">
+                  {nfaResult.trace.map((step, idx) => {
+                    const hasAccept = step.states.some(s => isAcceptState(fsmData, s));
+                    const isCurrentAnimating = idx === currentStep && isAnimating;
+                    const isPast = idx < currentStep || !isAnimating;
+
+                    return (
+                      <span key={idx} className="flex items-center">
+                        {step.symbol !== undefined && (
+                          <span className="text-muted-foreground mx-1">—{step.symbol}→</span>
+                        )}
+                        <span
+                          className={`px-2 py-1 rounded ${
+                            isCurrentAnimating
+                              ? 'bg-warning text-warning-foreground'
+                              : isPast
+                                ? hasAccept
+                                  ? 'bg-success/20 text-success border border-success/30'
+                                  : 'bg-destructive/20 text-destructive border border-destructive/30'
+                                : 'bg-muted text-muted-foreground'
+                          }`}
+                        >
+                          {formatStateSet(fsmData, step.states)}
+                        </span>
+                      </span>
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Batch Panel */}
+          <Card className="animate-fade-in" style={{ animationDelay: '0.2s' }}>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base font-mono">Batch Tests</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Textarea
+                value={batchText}
+                onChange={(e) => setBatchText(e.target.value)}
+                placeholder={'One test per line: input, ACCEPT or REJECT, optional final state\n0110, ACCEPT\n011, REJECT, q2'}
+                className="font-mono min-h-32"
+              />
+              <div className="flex gap-3">
+                <Button onClick={handleRunBatch} disabled={!batchText.trim()} className="px-6">
+                  <Play className="w-4 h-4 mr-2" />
+                  Run all
+                </Button>
+                <input
+                  ref={csvInputRef}
+                  type="file"
+                  accept=".csv,.txt"
+                  onChange={handleCsvChange}
+                  className="hidden"
+                />
+                <Button variant="outline" onClick={() => csvInputRef.current?.click()}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Load CSV
+                </Button>
+                {batchResults && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" className="ml-auto" disabled={batchResults.length === 0}>
+                        <FileDown className="w-4 h-4 mr-2" />
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent>
+                      <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleExport('json')}>JSON</DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+              </div>
+
+              {batchErrors.length > 0 && (
+                <div className="p-4 rounded-lg bg-destructive/10 border border-destructive/20">
+                  <div className="flex items-center gap-3 mb-2">
+                    <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0" />
+                    <p className="font-medium text-destructive text-sm">
+                      {batchErrors.length} {batchErrors.length === 1 ? 'line was' : 'lines were'} skipped
+                    </p>
+                  </div>
+                  <ul className="space-y-1 max-h-32 overflow-y-auto">
+                    {batchErrors.map((batchError, idx) => (
+                      <li key={idx} className="text-sm font-mono text-destructive/80">{batchError}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {batchSummary && (
+                <p className="text-sm font-mono">
+                  <span className="text-success">{batchSummary.passed} passed</span>
+                  {' · '}
+                  <span className={batchSummary.failed > 0 ? 'text-destructive' : 'text-muted-foreground'}>
+                    {batchSummary.failed} failed
+                  </span>
+                  {' · '}
+                  <span className="text-muted-foreground">{batchSummary.total} total</span>
+                </p>
+              )}
+
+              {sortedResults.length > 0 && (
+                <div className="max-h-96 overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {BATCH_COLUMNS.map(column => (
+                          <TableHead key={column.key}>
+                            <button
+                              type="button"
+                              onClick={() => handleSort(column.key)}
+                              className="flex items-center gap-1 hover:text-foreground"
+                            >
+                              {column.label}
+                              <ArrowUpDown className={`w-3 h-3 ${sortKey === column.key ? 'text-foreground' : 'opacity-40'}`} />
+                            </button>
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody className="font-mono">
+                      {sortedResults.map(row => (
+                        <TableRow
+                          key={row.index}
+                          onClick={() => handleReplay(row)}
+                          title={row.error ?? 'Replay in the visualizer'}
+                          className={`cursor-pointer ${row.index === replayedIndex ? 'bg-muted' : ''}`}
+                        >
+                          <TableCell>{row.index}</TableCell>
+                          <TableCell>{row.input === '' ? 'ε' : row.input}</TableCell>
+                          <TableCell>
+                            {row.expected}
+                            {row.expectedState !== null && (
+                              <span className="text-muted-foreground"> @ {formatState(row.expectedState)}</span>
+                            )}
+                          </TableCell>
+                          <TableCell
+                            className={row.actual === 'ACCEPT' ? 'text-success' : row.actual === 'ERROR' ? 'text-warning' : 'text-destructive'}
+                          >
+                            {row.actual}
+                          </TableCell>
+                          <TableCell>{formatState(row.finalState)}</TableCell>
+                          <TableCell>
+                            {row.passed ? (
+                              <span className="flex items-center gap-1 text-success"><CheckCircle className="w-4 h-4" /> PASS</span>
+                            ) : (
+                              <span className="flex items-center gap-1 text-destructive"><XCircle className="w-4 h-4" /> FAIL</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
@@ -1,31 +1,49 @@
 import { useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Upload, FileText, AlertCircle, Loader2, Terminal } from 'lucide-react';
+import { Upload, FileText, AlertCircle, AlertTriangle, Loader2, Terminal, Regex, ListChecks, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useFSM } from '@/lib/fsm-context';
-import { parseFSMFile, FSMValidationError } from '@/lib/fsm-parser';
+import { FSMDiagnostic } from '@/lib/fsm-parser';
+import { parseFSMWithTests, TEST_FILE_EXTENSION } from '@/lib/fsm-test-suite';
+import { compileRegex } from '@/lib/regex-compiler';
 
 export default function UploadPage() {
   const [file, setFile] = useState<File | null>(null);
+  const [testFile, setTestFile] = useState<File | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<FSMDiagnostic[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [regex, setRegex] = useState('');
+  const [regexAlphabet, setRegexAlphabet] = useState('');
+  const [regexName, setRegexName] = useState('');
+  const [regexError, setRegexError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
-  const { setFSMData } = useFSM();
+  const { setFSMData, setTestSuite } = useFSM();
 
-  const handleFileSelect = (selectedFile: File) => {
-    setFile(selectedFile);
+  // A .fsmtest file is kept next to the machine file rather than replacing it
+  const handleFileSelect = (selectedFiles: FileList) => {
+    for (const selected of Array.from(selectedFiles)) {
+      if (selected.name.toLowerCase().endsWith(TEST_FILE_EXTENSION)) {
+        setTestFile(selected);
+      } else {
+        setFile(selected);
+      }
+    }
     setError(null);
+    setDiagnostics([]);
   };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragOver(false);
-    const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile) {
-      handleFileSelect(droppedFile);
+    if (e.dataTransfer.files.length > 0) {
+      handleFileSelect(e.dataTransfer.files);
     }
   };
 
@@ -39,10 +57,10 @@ export default function UploadPage() {
   };
 
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      handleFileSelect(selectedFile);
+    if (e.target.files?.length) {
+      handleFileSelect(e.target.files);
     }
+    e.target.value = '';
   };
 
   const handleValidate = async () => {
@@ -53,16 +71,22 @@ export default function UploadPage() {
 
     setIsLoading(true);
     setError(null);
+    setDiagnostics([]);
 
     try {
       const content = await file.text();
-      const fsmData = parseFSMFile(content);
-      setFSMData(fsmData, file.name);
+      const { fsm, diagnostics: found, tests } = parseFSMWithTests(content);
+      if (!fsm) {
+        setDiagnostics(found);
+        return;
+      }
+      // A separate .fsmtest file takes precedence over a tests block in the machine file
+      const suite = testFile ? { source: testFile.name, text: await testFile.text() } : tests;
+      setFSMData(fsm, file.name, found);
+      setTestSuite(suite);
       navigate('/actions');
     } catch (err) {
-      if (err instanceof FSMValidationError) {
-        setError(err.message);
-      } else if (err instanceof Error) {
+      if (err instanceof Error) {
         setError(err.message);
       } else {
         setError('An unexpected error occurred');
@@ -72,6 +96,20 @@ export default function UploadPage() {
     }
   };
 
+  const handleCompile = () => {
+    setRegexError(null);
+
+    try {
+      const alphabet = regexAlphabet.split(',').map(s => s.trim()).filter(s => s.length > 0);
+      const fsm = compileRegex(regex.trim(), { alphabet, name: regexName.trim() || undefined });
+      setFSMData(fsm, `${fsm.name}.fsm`);
+      setTestSuite(null);
+      navigate('/actions');
+    } catch (err) {
+      setRegexError(err instanceof Error ? err.message : 'Could not compile the regex');
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background flex flex-col items-center justify-center p-6">
       {/* Header */}
@@ -81,93 +119,211 @@ export default function UploadPage() {
           <h1 className="text-4xl font-bold font-mono text-foreground">FSM Validator</h1>
         </div>
         <p className="text-muted-foreground text-lg max-w-md">
-          Upload your Finite State Machine definition file to validate and visualize
+          Upload your Finite State Machine definition file, or compile one from a regular expression, to validate and visualize
         </p>
       </div>
 
       {/* Upload Card */}
       <Card className="w-full max-w-lg shadow-lg animate-fade-in" style={{ animationDelay: '0.1s' }}>
         <CardContent className="p-8">
-          {/* Drop Zone */}
-          <div
-            className={`
-              relative border-2 border-dashed rounded-lg p-10 text-center transition-all duration-200 cursor-pointer
-              ${isDragOver 
-                ? 'border-primary bg-primary/5' 
-                : file 
-                  ? 'border-success bg-success/5' 
-                  : 'border-border hover:border-primary/50 hover:bg-muted/50'
-              }
-            `}
-            onDrop={handleDrop}
-            onDragOver={handleDragOver}
-            onDragLeave={handleDragLeave}
-            onClick={() => fileInputRef.current?.click()}
-          >
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept=".txt,.fsm"
-              onChange={handleFileInputChange}
-              className="hidden"
-            />
+          <Tabs defaultValue="file">
+            <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsTrigger value="file">Upload File</TabsTrigger>
+              <TabsTrigger value="regex">From Regex</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="file" className="mt-0">
+              {/* Drop Zone */}
+              <div
+                className={`
+                  relative border-2 border-dashed rounded-lg p-10 text-center transition-all duration-200 cursor-pointer
+                  ${isDragOver 
+                    ? 'border-primary bg-primary/5' 
+                    : file 
+                      ? 'border-success bg-success/5' 
+                      : 'border-border hover:border-primary/50 hover:bg-muted/50'
+                  }
+                `}
+                onDrop={handleDrop}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".txt,.fsm,.fsmtest"
+                  multiple
+                  onChange={handleFileInputChange}
+                  className="hidden"
+                />
             
-            {file ? (
-              <div className="flex flex-col items-center gap-3">
-                <FileText className="w-12 h-12 text-success" />
-                <div>
-                  <p className="font-mono font-medium text-foreground">{file.name}</p>
-                  <p className="text-sm text-muted-foreground">
-                    {(file.size / 1024).toFixed(2)} KB
-                  </p>
-                </div>
+                {file ? (
+                  <div className="flex flex-col items-center gap-3">
+                    <FileText className="w-12 h-12 text-success" />
+                    <div>
+                      <p className="font-mono font-medium text-foreground">{file.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {(file.size / 1024).toFixed(2)} KB
+                      </p>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex flex-col items-center gap-3">
+                    <Upload className="w-12 h-12 text-muted-foreground" />
+                    <div>
+                      <p className="font-medium text-foreground">Drop your FSM file here</p>
+                      <p className="text-sm text-muted-foreground">or click to browse; add a .fsmtest file to run its tests</p>
+                    </div>
+                  </div>
+                )}
               </div>
-            ) : (
-              <div className="flex flex-col items-center gap-3">
-                <Upload className="w-12 h-12 text-muted-foreground" />
-                <div>
-                  <p className="font-medium text-foreground">Drop your FSM file here</p>
-                  <p className="text-sm text-muted-foreground">or click to browse</p>
+
+              {/* Attached test suite */}
+              {testFile && (
+                <div className="mt-3 flex items-center gap-2 text-sm font-mono text-muted-foreground">
+                  <ListChecks className="w-4 h-4 text-primary flex-shrink-0" />
+                  <span className="truncate">Tests: {testFile.name}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 ml-auto"
+                    onClick={() => setTestFile(null)}
+                    aria-label="Remove test file"
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+
+              {/* Diagnostics */}
+              {diagnostics.length > 0 && (
+                <div className="mt-4 p-4 rounded-lg bg-destructive/10 border border-destructive/20">
+                  <div className="flex items-center gap-3 mb-2">
+                    <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0" />
+                    <p className="font-medium text-destructive text-sm">
+                      {diagnostics.filter(d => d.severity === 'error').length} error(s),{' '}
+                      {diagnostics.filter(d => d.severity === 'warning').length} warning(s)
+                    </p>
+                  </div>
+                  <ul className="space-y-1 max-h-64 overflow-y-auto">
+                    {diagnostics.map((d, idx) => (
+                      <li key={idx} className="flex items-start gap-2 text-sm font-mono">
+                        {d.severity === 'error' ? (
+                          <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0 mt-0.5" />
+                        ) : (
+                          <AlertTriangle className="w-4 h-4 text-warning flex-shrink-0 mt-0.5" />
+                        )}
+                        <span className={d.severity === 'error' ? 'text-destructive/80' : 'text-muted-foreground'}>
+                          <span className="font-semibold">
+                            {d.line > 0 ? `${d.line}:${d.column}` : 'File'}
+                          </span>{' '}
+                          {d.message} <span className="opacity-60">[{d.code}]</span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
                 </div>
+              )}
+
+              {/* Error Message */}
+              {error && (
+                <div className="mt-4 p-4 rounded-lg bg-destructive/10 border border-destructive/20 flex items-start gap-3">
+                  <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-medium text-destructive text-sm">Validation Error</p>
+                    <p className="text-sm text-destructive/80 font-mono mt-1">{error}</p>
+                  </div>
+                </div>
+              )}
+
+              {/* Validate Button */}
+              <Button
+                onClick={handleValidate}
+                disabled={!file || isLoading}
+                className="w-full mt-6 h-12 text-base font-medium"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                    Validating...
+                  </>
+                ) : (
+                  <>
+                    <Terminal className="w-5 h-5 mr-2" />
+                    Validate File
+                  </>
+                )}
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="regex" className="mt-0 space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="regex">Regular expression</Label>
+                <Input
+                  id="regex"
+                  value={regex}
+                  onChange={(e) => {
+                    setRegex(e.target.value);
+                    setRegexError(null);
+                  }}
+                  placeholder="(0|1)*01"
+                  className="font-mono text-lg"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Supports | ( ) * + ? [01] . and ε; escape operators with \
+                </p>
               </div>
-            )}
-          </div>
-
-          {/* Error Message */}
-          {error && (
-            <div className="mt-4 p-4 rounded-lg bg-destructive/10 border border-destructive/20 flex items-start gap-3">
-              <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
-              <div>
-                <p className="font-medium text-destructive text-sm">Validation Error</p>
-                <p className="text-sm text-destructive/80 font-mono mt-1">{error}</p>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="regexAlphabet">Alphabet</Label>
+                  <Input
+                    id="regexAlphabet"
+                    value={regexAlphabet}
+                    onChange={(e) => setRegexAlphabet(e.target.value)}
+                    placeholder="symbols used"
+                    className="font-mono"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="regexName">Name</Label>
+                  <Input
+                    id="regexName"
+                    value={regexName}
+                    onChange={(e) => setRegexName(e.target.value)}
+                    placeholder="regex"
+                    className="font-mono"
+                  />
+                </div>
               </div>
-            </div>
-          )}
-
-          {/* Validate Button */}
-          <Button
-            onClick={handleValidate}
-            disabled={!file || isLoading}
-            className="w-full mt-6 h-12 text-base font-medium"
-          >
-            {isLoading ? (
-              <>
-                <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                Validating...
-              </>
-            ) : (
-              <>
-                <Terminal className="w-5 h-5 mr-2" />
-                Validate File
-              </>
-            )}
-          </Button>
+
+              {/* Regex Error */}
+              {regexError && (
+                <div className="p-4 rounded-lg bg-destructive/10 border border-destructive/20 flex items-start gap-3">
+                  <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                  <div>
+                    <p className="font-medium text-destructive text-sm">Regex Error</p>
+                    <p className="text-sm text-destructive/80 font-mono mt-1">{regexError}</p>
+                  </div>
+                </div>
+              )}
+
+              <Button
+                onClick={handleCompile}
+                disabled={!regex.trim()}
+                className="w-full mt-2 h-12 text-base font-medium"
+              >
+                <Regex className="w-5 h-5 mr-2" />
+                Compile to DFA
+              </Button>
+            </TabsContent>
+          </Tabs>
         </CardContent>
       </Card>
 
       {/* Footer hint */}
       <p className="mt-8 text-sm text-muted-foreground font-mono animate-fade-in" style={{ animationDelay: '0.2s' }}>
-        Supports .txt and .fsm file formats
+        Supports .txt and .fsm file formats, with tests in a tests {'{ … }'} block or a .fsmtest file
       </p>
     </div>
   );
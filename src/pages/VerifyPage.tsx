@@ -0,0 +1,254 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, ShieldCheck, Play, Upload, AlertCircle, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useFSM } from '@/lib/fsm-context';
+import { FSMData, FSMDiagnostic } from '@/lib/fsm-parser';
+import { parseFSMWithTests } from '@/lib/fsm-test-suite';
+import { compareWithOracle, verificationCases, verifyAgainstReference, VerificationResult } from '@/lib/fsm-oracle';
+import { evaluateOracle } from '@/lib/oracle-sandbox';
+
+type OracleKind = 'expression' | 'reference';
+
+// Inputs grow as |alphabet|^N, so the run stops after a fixed number of them
+const MAX_LENGTH = 24;
+const CASE_LIMIT = 50000;
+const SHOWN_MISMATCHES = 200;
+
+export default function VerifyPage() {
+  const navigate = useNavigate();
+  const { fsmData } = useFSM();
+  const [kind, setKind] = useState<OracleKind>('expression');
+  const [expression, setExpression] = useState('');
+  const [reference, setReference] = useState<FSMData | null>(null);
+  const [referenceFileName, setReferenceFileName] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<FSMDiagnostic[]>([]);
+  const [maxLength, setMaxLength] = useState(8);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [checkedLength, setCheckedLength] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!fsmData) {
+      navigate('/');
+    }
+  }, [fsmData, navigate]);
+
+  if (!fsmData) {
+    return null;
+  }
+
+  const handleFileInputChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!selectedFile) return;
+
+    const { fsm, diagnostics: found } = parseFSMWithTests(await selectedFile.text());
+    setReferenceFileName(selectedFile.name);
+    setDiagnostics(found.filter(d => d.severity === 'error'));
+    setReference(fsm);
+    setResult(null);
+  };
+
+  const canRun = kind === 'expression' ? expression.trim() !== '' : reference !== null;
+
+  const handleRun = async () => {
+    const length = Math.min(Math.max(maxLength, 0), MAX_LENGTH);
+    setError(null);
+    setResult(null);
+    setIsRunning(true);
+
+    try {
+      if (kind === 'expression') {
+        const { cases, truncated } = verificationCases(fsmData, length, CASE_LIMIT);
+        const verdicts = await evaluateOracle(expression, cases);
+        setResult(compareWithOracle(cases, verdicts, truncated));
+      } else {
+        setResult(verifyAgainstReference(fsmData, reference, length, CASE_LIMIT));
+      }
+      setCheckedLength(length);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const formatInput = (input: string) => (input === '' ? 'ε' : input);
+  const verdict = (accepted: boolean) => (
+    <span className={accepted ? 'text-success' : 'text-destructive'}>{accepted ? 'ACCEPT' : 'REJECT'}</span>
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => navigate('/actions')}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Actions
+          </Button>
+          <div className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-primary" />
+            <h1 className="text-xl font-bold font-mono text-foreground">
+              Verify: {fsmData.name}
+            </h1>
+          </div>
+        </div>
+
+        <div className="grid gap-6">
+          {/* Oracle Panel */}
+          <Card className="animate-fade-in">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base font-mono">Oracle</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Tabs value={kind} onValueChange={(value) => { setKind(value as OracleKind); setResult(null); }}>
+                <TabsList className="grid w-full grid-cols-2 mb-4">
+                  <TabsTrigger value="expression">JavaScript expression</TabsTrigger>
+                  <TabsTrigger value="reference">Reference machine</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="expression" className="mt-0 space-y-2">
+                  <Input
+                    value={expression}
+                    onChange={(e) => setExpression(e.target.value)}
+                    placeholder="parseInt(x, 2) % 4 === 0"
+                    className="font-mono"
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    <code className="font-mono">x</code> is the input as a string and{' '}
+                    <code className="font-mono">symbols</code> its symbols as an array. Return true for inputs the
+                    machine should accept. The expression runs in a separate worker without access to the page, the network
+                    or imports; it is meant for your own expressions, not for code you do not trust.
+                  </p>
+                </TabsContent>
+
+                <TabsContent value="reference" className="mt-0 space-y-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".txt,.fsm"
+                    onChange={handleFileInputChange}
+                    className="hidden"
+                  />
+                  <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="w-full">
+                    <Upload className="w-4 h-4 mr-2" />
+                    {reference ? `${referenceFileName} (load a different file)` : 'Load reference file'}
+                  </Button>
+                  {diagnostics.length > 0 && (
+                    <div className="p-4 rounded-lg bg-destructive/10 border border-destructive/20">
+                      <div className="flex items-center gap-3 mb-2">
+                        <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0" />
+                        <p className="font-medium text-destructive text-sm">{referenceFileName} is not a valid FSM file</p>
+                      </div>
+                      <ul className="space-y-1 max-h-48 overflow-y-auto">
+                        {diagnostics.map((d, idx) => (
+                          <li key={idx} className="text-sm font-mono text-destructive/80">
+                            <span className="font-semibold">{d.line > 0 ? `${d.line}:${d.column}` : 'File'}</span> {d.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </TabsContent>
+              </Tabs>
+
+              <div className="flex items-end gap-3">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="maxLength">Every input up to length</Label>
+                  <Input
+                    id="maxLength"
+                    type="number"
+                    min={0}
+                    max={MAX_LENGTH}
+                    value={maxLength}
+                    onChange={(e) => setMaxLength(parseInt(e.target.value) || 0)}
+                    className="font-mono"
+                  />
+                </div>
+                <Button onClick={handleRun} disabled={!canRun || isRunning} className="px-6">
+                  {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                  Verify
+                </Button>
+              </div>
+
+              {error && (
+                <div className="flex items-center gap-3 p-4 rounded-lg bg-destructive/10 border border-destructive/20">
+                  <AlertCircle className="w-5 h-5 text-destructive flex-shrink-0" />
+                  <p className="text-sm text-destructive font-mono">{error}</p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Result */}
+          {result && (
+            <Card className="animate-fade-in" style={{ animationDelay: '0.1s' }}>
+              <CardContent className="pt-6 space-y-4">
+                {result.mismatches.length === 0 ? (
+                  <div className="flex items-center gap-3">
+                    <CheckCircle className="w-6 h-6 text-success" />
+                    <p className="font-medium text-foreground">
+                      All {result.checked} inputs up to length {checkedLength} agree with the oracle
+                    </p>
+                  </div>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-3">
+                      <XCircle className="w-6 h-6 text-destructive" />
+                      <p className="font-medium text-foreground">
+                        {result.mismatches.length} of {result.checked} inputs up to length {checkedLength} disagree
+                      </p>
+                    </div>
+                    <div className="max-h-80 overflow-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Input</TableHead>
+                            <TableHead>Machine</TableHead>
+                            <TableHead>Oracle</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody className="font-mono">
+                          {result.mismatches.slice(0, SHOWN_MISMATCHES).map((m, idx) => (
+                            <TableRow key={idx}>
+                              <TableCell>{formatInput(m.input)}</TableCell>
+                              <TableCell>{verdict(m.accepted)}</TableCell>
+                              <TableCell>{verdict(m.expected)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                    {result.mismatches.length > SHOWN_MISMATCHES && (
+                      <p className="text-sm text-muted-foreground">
+                        Showing the shortest {SHOWN_MISMATCHES} mismatches.
+                      </p>
+                    )}
+                  </>
+                )}
+                {result.truncated && (
+                  <p className="text-sm text-muted-foreground">
+                    Stopped after {CASE_LIMIT} inputs; longer inputs were not checked.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import { parseFSMFile, FSMData } from '@/lib/fsm-parser';
+import { evaluateFSM, generateExcelWorkbook, getCorrectTiles, ExperimentInput } from '@/lib/excel-generator';
+import { addSinkState } from '@/lib/fsm-completion';
+
+// Adds one to a binary number written least significant bit first
+const increment = parseFSMFile(`Name = "increment"
+states = 2
+symbols = {0, 1}
+transitions =
+1: 0.2/1, 1.1/0
+2: 0.2/0, 1.2/1
+startstate = 1
+acceptstate = 2`);
+
+const experiment = (fsm: FSMData, name: string, fsmInput: string): ExperimentInput => ({
+  name,
+  fsmInput,
+  ...evaluateFSM(fsm, fsmInput),
+  fluorophore: 'ANS N',
+});
+
+const layoutRows = (fsm: FSMData, experiments: ExperimentInput[], reportEveryPosition: boolean) => {
+  const wb = generateExcelWorkbook({
+    experiments,
+    stockConcentration: 50,
+    targetConcentration: 1,
+    totalVolume: 80,
+    reportEveryPosition,
+  }, fsm);
+  return XLSX.utils.sheet_to_json<(string | null)[]>(wb.Sheets.qpcr_layout, { header: 1, defval: null });
+};
+
+describe('Excel Generator - experiment layout', () => {
+  it('should label every bit row with the expected output bit', () => {
+    const rows = layoutRows(increment, [experiment(increment, 'inc', '110')], true);
+    const labels = rows.map(row => row[2]).filter(label => label?.startsWith('inc'));
+
+    expect(labels).toEqual([
+      'inc; Bit 0; Out 0; Ans 2',
+      'inc; Bit 1; Out 0; Ans 2',
+      'inc; Bit 2; Out 1; Ans 2',
+      'inc; Bit 0; Out 0; Ans 2; Control',
+      'inc; Bit 1; Out 0; Ans 2; Control',
+      'inc; Bit 2; Out 1; Ans 2; Control',
+    ]);
+  });
+
+  it('should use each experiment\'s last output when reporting only the final position', () => {
+    const rows = layoutRows(increment, [experiment(increment, 'a', '11'), experiment(increment, 'b', '0')], false);
+
+    expect(rows[4].slice(2)).toEqual(['a; Position 1; Out 0; Ans 1', 'a; Position 1; Out 0; Ans 1', 'b; Position 2; Out 1; Ans 2', 'b; Position 2; Out 1; Ans 2']);
+  });
+
+  it('should keep the plain labels for machines without outputs', () => {
+    const plain = { ...increment, transitionOutputs: {} };
+    const rows = layoutRows(plain, [experiment(plain, 'inc', '01')], true);
+
+    expect(rows[4][2]).toBe('inc; Bit 0; Ans 2');
+  });
+});
+
+describe('Excel Generator - partial machines', () => {
+  // Accepts exactly "ab"; everything else falls into the implicit dead state
+  const exactlyAB = parseFSMFile(`Name = "ab"
+mode = partial
+states = 3
+symbols = {a, b}
+transitions =
+1: a.2
+2: b.3
+startstate = 1
+acceptstate = 3`);
+
+  it('should report no final state for an input that falls into the implicit dead state', () => {
+    const result = evaluateFSM(exactlyAB, 'abab');
+
+    expect(result).toMatchObject({ result: 'REJECT', finalState: null });
+    expect(result.error).toMatch(/implicit dead state/);
+  });
+
+  it('should give tiles at every position once the dead state is explicit', () => {
+    const complete = addSinkState(exactlyAB);
+    const fallsOff = experiment(complete, 'x', 'abab');
+    const rows = layoutRows(complete, [fallsOff], false);
+    const wb = generateExcelWorkbook({
+      experiments: [fallsOff],
+      stockConcentration: 50,
+      targetConcentration: 1,
+      totalVolume: 80,
+      reportEveryPosition: false,
+    }, complete);
+    const reagents = XLSX.utils.sheet_to_json<(string | null)[]>(wb.Sheets.Reagents_and_Tiles, { header: 1, defval: null }).flat();
+
+    expect(fallsOff).toMatchObject({ result: 'REJECT', finalState: 4 });
+    expect(getCorrectTiles(complete, 'abab')).toEqual(['A2', '2B3', '3C4', '4D']);
+    expect(rows[4][2]).toBe('x; Position 4; Ans 4');
+    expect(reagents).toEqual(expect.arrayContaining(['3C4', '4D']));
+  });
+});
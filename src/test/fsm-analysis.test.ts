@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile } from '@/lib/fsm-parser';
+import { analyzeStructure, structuralWarnings } from '@/lib/fsm-analysis';
+
+// 1 <-> 2 loop, 3 is a dead sink, 4 is only reachable from 5, and 5 is unreachable
+const messy = `Name = "messy"
+states = 5
+symbols = {a, b}
+transitions =
+1: a.2, b.3
+2: a.1, b.2
+3: a.3, b.3
+4: a.4, b.1
+5: a.4, b.5
+startstate = 1
+acceptstate = 2`;
+
+describe('FSM Analysis', () => {
+  it('should report unreachable states, dead states, sinks and components', () => {
+    const analysis = analyzeStructure(parseFSMFile(messy));
+
+    expect(analysis.unreachable).toEqual([4, 5]);
+    expect(analysis.cannotAccept).toEqual([3]);
+    expect(analysis.sinks).toEqual([3]);
+    expect(analysis.components).toEqual([[1, 2], [3], [4], [5]]);
+  });
+
+  it('should work on 0-based, named and partial machines', () => {
+    const fsm = parseFSMFile(`Name = "partial"
+mode = partial
+indexing = 0
+states = {s, t, u}
+symbols = {a, b}
+transitions =
+s: a.t
+t: a.t
+u: b.s
+startstate = s
+acceptstate = s`);
+    const analysis = analyzeStructure(fsm);
+
+    expect(analysis.unreachable).toEqual([2]);
+    expect(analysis.cannotAccept).toEqual([1]);
+    // t only loops on a; b goes to the implicit dead state, so t is not a sink
+    expect(analysis.sinks).toEqual([]);
+    expect(analysis.components).toEqual([[0], [1], [2]]);
+  });
+
+  it('should follow ε transitions in NFAs', () => {
+    const fsm = parseFSMFile(`Name = "eps"
+mode = nfa
+states = 3
+symbols = {a}
+transitions =
+1: ε.2
+2: a.2
+3: a.1
+startstate = 1
+acceptstate = 2`);
+
+    expect(analyzeStructure(fsm)).toMatchObject({ unreachable: [3], cannotAccept: [] });
+  });
+
+  it('should phrase warnings with state labels', () => {
+    const fsm = parseFSMFile(messy);
+    const warnings = structuralWarnings(fsm, analyzeStructure(fsm));
+
+    expect(warnings).toEqual([
+      'Unreachable from the start state: q4, q5 (still given competing tiles unless pruning to reachable states is on)',
+      'Rejecting sink (dead state): q3',
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile } from '@/lib/fsm-parser';
+import {
+  batchResultsToCSV,
+  batchResultsToJSON,
+  parseBatch,
+  recordBatch,
+  resolveState,
+  runBatch,
+  sortBatchResults,
+  summarizeBatch,
+} from '@/lib/fsm-batch';
+
+// Even number of 1s, named
+const evenOnes = `Name = "even1s"
+states = {even, odd}
+symbols = {0, 1}
+transitions =
+even: 0.even, 1.odd
+odd: 0.odd, 1.even
+startstate = even
+acceptstate = even`;
+
+// Partial DFA: exactly "ab"
+const exactlyAB = `Name = "ab"
+mode = partial
+states = 3
+symbols = {a, b}
+transitions =
+1: a.2
+2: b.3
+startstate = 1
+acceptstate = 3`;
+
+describe('FSM Batch - parsing', () => {
+  it('should read pasted rows, a header and quoted fields', () => {
+    const fsm = parseFSMFile(evenOnes);
+    const { cases, errors } = parseBatch([
+      'input,expected,final state',
+      '11, ACCEPT, even',
+      '# a comment',
+      '',
+      '"1,0",reject',
+      'ε\taccept\teven',
+    ].join('\n'), fsm);
+
+    expect(errors).toEqual([]);
+    expect(cases).toEqual([
+      { input: '11', expected: 'ACCEPT', expectedState: 1, line: 2 },
+      { input: '1,0', expected: 'REJECT', expectedState: null, line: 5 },
+      { input: '', expected: 'ACCEPT', expectedState: 1, line: 6 },
+    ]);
+  });
+
+  it('should report bad rows by line and keep the rest', () => {
+    const { cases, errors } = parseBatch('ab,ACCEPT,q3\nb,maybe\nab,ACCEPT,q9\na,REJECT,2', parseFSMFile(exactlyAB));
+
+    expect(errors).toEqual(["Line 2: Expected ACCEPT or REJECT, got 'maybe'", "Line 3: Unknown state 'q9'"]);
+    expect(cases.map(c => c.expectedState)).toEqual([3, 2]);
+  });
+
+  it('should resolve states by name, number or q-label', () => {
+    expect(resolveState(parseFSMFile(evenOnes), 'odd')).toBe(2);
+    expect(resolveState(parseFSMFile(exactlyAB), 'Q2')).toBe(2);
+    expect(resolveState(parseFSMFile(exactlyAB), '0')).toBeNull();
+  });
+});
+
+describe('FSM Batch - running', () => {
+  it('should pass only when both the verdict and the final state match', () => {
+    const fsm = parseFSMFile(evenOnes);
+    const { cases } = parseBatch('11,ACCEPT,even\n1,ACCEPT\n10,REJECT,even\n0x,REJECT', fsm);
+    const results = runBatch(fsm, cases);
+
+    expect(results.map(r => r.passed)).toEqual([true, false, false, false]);
+    expect(results[2]).toMatchObject({ actual: 'REJECT', finalState: 2 });
+    expect(summarizeBatch(results)).toEqual({ total: 4, passed: 1, failed: 3 });
+  });
+
+  it('should never pass an input with a symbol outside the alphabet', () => {
+    const fsm = parseFSMFile(evenOnes);
+    const results = runBatch(fsm, parseBatch('01x0,REJECT\n01x0,ACCEPT\n2,REJECT', fsm).cases);
+
+    expect(results.map(r => r.actual)).toEqual(['ERROR', 'ERROR', 'ERROR']);
+    expect(results.some(r => r.passed)).toBe(false);
+    expect(results[0].error).toMatch(/^Position 3: Symbol 'x'/);
+    expect(batchResultsToCSV(fsm, results).split('\n')[1]).toMatch(/^1,01x0,REJECT,,ERROR,,FAIL,/);
+  });
+
+  it('should give no final state when a partial machine falls into the dead state', () => {
+    const fsm = parseFSMFile(exactlyAB);
+    const [result] = runBatch(fsm, parseBatch('b,REJECT', fsm).cases);
+
+    expect(result).toMatchObject({ actual: 'REJECT', finalState: null, passed: true });
+  });
+
+  it('should sort by any column and keep batch order on ties', () => {
+    const fsm = parseFSMFile(evenOnes);
+    const results = runBatch(fsm, parseBatch('1,ACCEPT\n11,ACCEPT\n0,REJECT\n111,REJECT', fsm).cases);
+
+    expect(sortBatchResults(results, 'passed').map(r => r.index)).toEqual([1, 3, 2, 4]);
+    expect(sortBatchResults(results, 'input', true).map(r => r.input)).toEqual(['111', '11', '1', '0']);
+    expect(sortBatchResults(results, 'finalState').map(r => r.finalState)).toEqual([1, 1, 2, 2]);
+  });
+});
+
+describe('FSM Batch - export', () => {
+  it('should record the current behaviour as a batch that passes', () => {
+    const fsm = parseFSMFile(exactlyAB);
+    const text = recordBatch(fsm, ['ab', '', 'b']);
+
+    expect(text).toBe('ab,ACCEPT,q3\nε,REJECT,q1\nb,REJECT\n');
+    expect(summarizeBatch(runBatch(fsm, parseBatch(text, fsm).cases)).failed).toBe(0);
+  });
+
+  it('should write CSV and JSON with state labels', () => {
+    const fsm = parseFSMFile(evenOnes);
+    const results = runBatch(fsm, parseBatch('"1,1",ACCEPT,even\n1,ACCEPT', fsm).cases);
+
+    expect(batchResultsToCSV(fsm, results).split('\n')).toEqual([
+      '#,input,expected,expected state,actual,final state,result,error',
+      expect.stringMatching(/^1,"1,1",ACCEPT,even,ERROR,,FAIL,"Position 2: Symbol ','/),
+      '2,1,ACCEPT,,REJECT,odd,FAIL,',
+      '',
+    ]);
+
+    const json = JSON.parse(batchResultsToJSON(fsm, results));
+    expect(json.summary).toEqual({ total: 2, passed: 0, failed: 2 });
+    expect(json.results[1]).toEqual({
+      index: 2,
+      input: '1',
+      expected: 'ACCEPT',
+      expectedState: null,
+      actual: 'REJECT',
+      finalState: 'odd',
+      passed: false,
+    });
+  });
+});
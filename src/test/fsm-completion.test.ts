@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile, runFSM } from '@/lib/fsm-parser';
+import { findMissingTransitions, addSinkState } from '@/lib/fsm-completion';
+
+// Accepts exactly "ab"; every other transition is missing
+const exactlyAB = `Name = "ab"
+mode = partial
+states = 3
+symbols = {a, b}
+transitions =
+1: a.2
+2: b.3
+startstate = 1
+acceptstate = 3`;
+
+describe('FSM Parser - partial mode', () => {
+  it('should allow missing transitions and rows', () => {
+    const fsm = parseFSMFile(exactlyAB);
+
+    expect(fsm.mode).toBe('partial');
+    expect(fsm.transitions[3]).toEqual([]);
+  });
+
+  it('should suggest partial mode when a DFA is missing transitions', () => {
+    expect(() => parseFSMFile(exactlyAB.replace('mode = partial\n', '').replace('2: b.3', '2: a.2, b.3\n3: a.3, b.3')))
+      .toThrow("State 1 has 1 transitions but 2 symbols defined. Add 'mode = partial' to allow missing transitions");
+  });
+
+  it('should still reject two transitions on the same symbol', () => {
+    expect(() => parseFSMFile(exactlyAB.replace('1: a.2', '1: a.2, a.3'))).toThrow("more than one transition on 'a'");
+  });
+
+  it('should reject inputs that fall into the implicit dead state', () => {
+    const fsm = parseFSMFile(exactlyAB);
+
+    expect(runFSM(fsm, 'ab').accepted).toBe(true);
+    expect(runFSM(fsm, 'abb')).toMatchObject({
+      accepted: false,
+      endState: 3,
+      error: "No transition for 'b' from state q3; rejected by the implicit dead state",
+    });
+  });
+});
+
+describe('FSM Completion', () => {
+  it('should list missing transitions in state and alphabet order', () => {
+    expect(findMissingTransitions(parseFSMFile(exactlyAB))).toEqual([
+      { state: 1, symbol: 'b' },
+      { state: 2, symbol: 'a' },
+      { state: 3, symbol: 'a' },
+      { state: 3, symbol: 'b' },
+    ]);
+  });
+
+  it('should route missing transitions to a new looping dead state', () => {
+    const fsm = addSinkState(parseFSMFile(exactlyAB));
+
+    expect(fsm.mode).toBe('dfa');
+    expect(fsm.states).toBe(4);
+    expect(fsm.transitions[1]).toEqual([['a', '2'], ['b', '4']]);
+    expect(fsm.transitions[4]).toEqual([['a', '4'], ['b', '4']]);
+    expect(fsm.acceptstates).toEqual(new Set([3]));
+    expect(runFSM(fsm, 'abb')).toMatchObject({ accepted: false, endState: 4 });
+    expect(findMissingTransitions(fsm)).toEqual([]);
+  });
+
+  it('should name the dead state without clashing with existing names', () => {
+    const fsm = addSinkState(parseFSMFile(`Name = "named"
+mode = partial
+indexing = 0
+states = {dead, live}
+symbols = {x}
+transitions =
+live: x.dead
+startstate = live
+acceptstate = live`));
+
+    expect(fsm.stateNames[2]).toBe('dead_2');
+    expect(fsm.stateIndex.dead_2).toBe(2);
+    expect(fsm.transitions[0]).toEqual([['x', '2']]);
+  });
+
+  it('should leave complete machines unchanged apart from the mode', () => {
+    const complete = parseFSMFile(exactlyAB.replace('1: a.2', '1: a.2, b.1').replace('2: b.3', '2: a.2, b.3\n3: a.3, b.3'));
+
+    expect(addSinkState(complete).states).toBe(3);
+  });
+});
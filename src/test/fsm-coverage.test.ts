@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { createFSM, parseFSMFile, runFSM } from '@/lib/fsm-parser';
+import { checkEquivalence } from '@/lib/fsm-equivalence';
+import { coverageMatrix, listTransitions, transitionCoverSuite, wMethodSuite } from '@/lib/fsm-coverage';
+
+// Binary numbers divisible by 3, 0-based, remainder as state
+const mod3 = `Name = "mod3"
+indexing = 0
+states = 3
+symbols = {0, 1}
+transitions =
+0: 0.0, 1.1
+1: 0.2, 1.0
+2: 0.1, 1.2
+startstate = 0
+acceptstate = {0}`;
+
+// Starts with a: two sinks, so one walk cannot cover both; q4 is unreachable
+const startsWithA = `Name = "startsA"
+states = 4
+symbols = {a, b}
+transitions =
+1: a.2, b.3
+2: a.2, b.2
+3: a.3, b.3
+4: a.1, b.1
+startstate = 1
+acceptstate = {2}`;
+
+// Partial DFA: exactly "ab"
+const exactlyAB = `Name = "ab"
+mode = partial
+states = 3
+symbols = {a, b}
+transitions =
+1: a.2
+2: b.3
+startstate = 1
+acceptstate = 3`;
+
+describe('FSM Coverage - transition cover', () => {
+  it('should cover a strongly connected machine with a single input', () => {
+    const suite = transitionCoverSuite(parseFSMFile(mod3));
+
+    expect(suite.kind).toBe('transition');
+    expect(suite.transitions).toHaveLength(6);
+    expect(suite.inputs).toHaveLength(1);
+    expect(suite.matrix[0].every(Boolean)).toBe(true);
+    expect(suite.uncovered).toEqual([]);
+  });
+
+  it('should start a new input when the walk is stuck in a sink', () => {
+    const suite = transitionCoverSuite(parseFSMFile(startsWithA));
+
+    expect(suite.inputs).toEqual([['a', 'a', 'b'], ['b', 'a', 'b']]);
+    expect(suite.uncovered).toEqual([
+      { from: 4, symbol: 'a', to: 1 },
+      { from: 4, symbol: 'b', to: 1 },
+    ]);
+  });
+
+  it('should only cover the transitions a partial machine defines', () => {
+    const suite = transitionCoverSuite(parseFSMFile(exactlyAB));
+
+    expect(suite.transitions).toHaveLength(2);
+    expect(suite.inputs).toEqual([['a', 'b']]);
+  });
+
+  it('should refuse an NFA', () => {
+    const nfa = parseFSMFile(mod3.replace('indexing = 0', 'mode = nfa\nindexing = 0'));
+
+    expect(() => transitionCoverSuite(nfa)).toThrow('convert the NFA to a DFA first');
+    expect(() => wMethodSuite(nfa)).toThrow('convert the NFA to a DFA first');
+  });
+});
+
+describe('FSM Coverage - matrix', () => {
+  it('should stop marking where an input falls off a partial machine', () => {
+    const fsm = parseFSMFile(exactlyAB);
+    const matrix = coverageMatrix(fsm, listTransitions(fsm), [['a', 'a', 'b'], ['b'], []]);
+
+    expect(matrix).toEqual([[true, false], [false, false], [false, false]]);
+  });
+});
+
+describe('FSM Coverage - W-method', () => {
+  it('should tell apart every state, including the dead state of a partial machine', () => {
+    const suite = wMethodSuite(parseFSMFile(exactlyAB));
+
+    expect(suite.kind).toBe('w-method');
+    // b separates q1 from q2 (and q2 from the dead state), ε separates q3 from the rest, ab separates q1 from the dead state
+    expect(suite.characterizingSet).toEqual([['b'], [], ['a', 'b']]);
+    expect(suite.uncovered).toEqual([]);
+  });
+
+  it('should catch every wrong transition target in a minimal machine', () => {
+    const fsm = parseFSMFile(mod3);
+    const suite = wMethodSuite(fsm);
+
+    for (const { from, symbol } of listTransitions(fsm)) {
+      for (const wrong of [0, 1, 2]) {
+        const transitions = Object.fromEntries(
+          Object.entries(fsm.transitions).map(([state, row]) => [
+            state,
+            row.map(([s, to]) => [s, parseInt(state, 10) === from && s === symbol ? String(wrong) : to] as [string, string]),
+          ])
+        );
+        const mutant = createFSM({
+          name: fsm.name,
+          symbols: fsm.symbols,
+          transitions,
+          startstate: fsm.startstate,
+          acceptstates: fsm.acceptstates,
+          zeroIndexed: true,
+        });
+        if (checkEquivalence(fsm, mutant).equivalent) continue;
+
+        const caught = suite.inputs.some(input => runFSM(fsm, input.join('')).accepted !== runFSM(mutant, input.join('')).accepted);
+        expect(caught, `${from} on ${symbol} -> ${wrong}`).toBe(true);
+      }
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile } from '@/lib/fsm-parser';
+import { checkEquivalence } from '@/lib/fsm-equivalence';
+import { minimizeDFA } from '@/lib/fsm-minimizer';
+import { compileRegex } from '@/lib/regex-compiler';
+
+// Even number of 1s, 1-based with a redundant copy of each state
+const evenOnes = `Name = "even1s"
+states = 4
+symbols = {0, 1}
+transitions =
+1: 0.3, 1.2
+2: 0.4, 1.3
+3: 0.1, 1.4
+4: 0.2, 1.1
+startstate = 1
+acceptstate = {1, 3}`;
+
+// The same language, 0-based and named
+const evenOnesNamed = `Name = "even1s"
+indexing = 0
+states = {even, odd}
+symbols = {0, 1}
+transitions =
+even: 0.even, 1.odd
+odd: 0.odd, 1.even
+startstate = even
+acceptstate = even`;
+
+describe('FSM Equivalence', () => {
+  it('should accept machines with different indexing and state counts', () => {
+    const result = checkEquivalence(parseFSMFile(evenOnes), parseFSMFile(evenOnesNamed));
+
+    expect(result.equivalent).toBe(true);
+    expect(result.counterexample).toBeUndefined();
+  });
+
+  it('should find the shortest distinguishing input', () => {
+    // Accepting odd instead of even: the empty string already differs
+    const odd = parseFSMFile(evenOnesNamed.replace('acceptstate = even', 'acceptstate = odd'));
+    expect(checkEquivalence(parseFSMFile(evenOnes), odd)).toMatchObject({
+      equivalent: false,
+      counterexample: [],
+      acceptedBy: 'first',
+    });
+
+    // Empty or ending in 0 versus even 1s: they agree up to length 1, then "10" ends in 0 with one 1
+    const endsIn0 = compileRegex('ε|(0|1)*0');
+    expect(checkEquivalence(endsIn0, parseFSMFile(evenOnes))).toMatchObject({
+      equivalent: false,
+      counterexample: ['1', '0'],
+      acceptedBy: 'first',
+    });
+  });
+
+  it('should agree with minimization and regex compilation', () => {
+    const fsm = parseFSMFile(evenOnes);
+
+    expect(checkEquivalence(fsm, minimizeDFA(fsm).dfa).equivalent).toBe(true);
+    expect(checkEquivalence(fsm, compileRegex('0*(10*10*)*')).equivalent).toBe(true);
+  });
+
+  it('should treat missing transitions and unknown symbols as rejection', () => {
+    const partial = parseFSMFile(`Name = "just1"
+mode = partial
+states = 2
+symbols = {1}
+transitions =
+1: 1.2
+startstate = 1
+acceptstate = 2`);
+    const withZero = compileRegex('1', { alphabet: ['0', '1'] });
+
+    const result = checkEquivalence(partial, withZero);
+    expect(result.equivalent).toBe(true);
+    expect(result.alphabet).toEqual(['1', '0']);
+  });
+
+  it('should handle NFAs', () => {
+    const nfa = parseFSMFile(`Name = "ends01"
+mode = nfa
+states = 3
+symbols = {0, 1}
+transitions =
+1: 0.1, 1.1, 0.2
+2: 1.3
+startstate = 1
+acceptstate = 3`);
+
+    expect(checkEquivalence(nfa, compileRegex('(0|1)*01')).equivalent).toBe(true);
+    expect(checkEquivalence(nfa, compileRegex('(0|1)*1')).counterexample).toEqual(['1']);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile } from '@/lib/fsm-parser';
+import { countByLength, enumerateStrings } from '@/lib/fsm-language';
+import { compileRegex } from '@/lib/regex-compiler';
+
+// Binary numbers divisible by 4: the last two bits are 00 (state 3), read most significant bit first
+const divby4 = `Name = "divby4"
+states = 3
+symbols = {0, 1}
+transitions =
+1: 0.2, 1.1
+2: 0.3, 1.1
+3: 0.3, 1.1
+startstate = 1
+acceptstate = 3`;
+
+describe('FSM Language', () => {
+  it('should count exactly a quarter of the strings of each length from 2 on', () => {
+    const counts = countByLength(parseFSMFile(divby4), 10);
+
+    expect(counts[0]).toEqual({ length: 0, accepted: 0n, rejected: 1n, total: 1n, share: 0 });
+    for (const count of counts.slice(2)) {
+      expect(count.accepted * 4n).toBe(count.total);
+      expect(count.share).toBe(0.25);
+    }
+  });
+
+  it('should stay exact beyond floating-point range', () => {
+    const counts = countByLength(parseFSMFile(divby4), 100);
+
+    expect(counts[100].total).toBe(2n ** 100n);
+    expect(counts[100].accepted).toBe(2n ** 98n);
+  });
+
+  it('should list strings shortest first and agree with the counts', () => {
+    const fsm = parseFSMFile(divby4);
+    const { strings, truncated } = enumerateStrings(fsm, 3);
+
+    expect(truncated).toBe(false);
+    expect(strings).toHaveLength(1 + 2 + 4 + 8);
+    expect(strings.filter(s => s.accepted).map(s => s.symbols.join(''))).toEqual(['00', '000', '100']);
+    countByLength(fsm, 3).forEach(count => {
+      const listed = strings.filter(s => s.symbols.length === count.length && s.accepted).length;
+      expect(BigInt(listed)).toBe(count.accepted);
+    });
+  });
+
+  it('should stop listing at the limit', () => {
+    const { strings, truncated } = enumerateStrings(parseFSMFile(divby4), 20, 100);
+
+    expect(truncated).toBe(true);
+    expect(strings).toHaveLength(100);
+  });
+
+  it('should count partial machines and NFAs without double counting', () => {
+    const partial = parseFSMFile(`Name = "ab"
+mode = partial
+states = 3
+symbols = {a, b}
+transitions =
+1: a.2
+2: b.3
+startstate = 1
+acceptstate = 3`);
+    expect(countByLength(partial, 3).map(c => c.accepted)).toEqual([0n, 0n, 1n, 0n]);
+    expect(countByLength(partial, 2)[2].rejected).toBe(3n);
+
+    // (0|1)*1(0|1): second-to-last symbol is 1; many NFA paths, but each string counts once
+    const nfa = parseFSMFile(`Name = "second_last_1"
+mode = nfa
+states = 3
+symbols = {0, 1}
+transitions =
+1: 0.1, 1.1, 1.2
+2: 0.3, 1.3
+startstate = 1
+acceptstate = 3`);
+    const counts = countByLength(nfa, 5);
+    expect(counts.map(c => c.accepted)).toEqual([0n, 0n, 2n, 4n, 8n, 16n]);
+    expect(counts.map(c => c.accepted)).toEqual(countByLength(compileRegex('(0|1)*1(0|1)'), 5).map(c => c.accepted));
+    expect(enumerateStrings(nfa, 2).strings.filter(s => s.accepted).map(s => s.symbols.join(''))).toEqual(['10', '11']);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile, runFSM } from '@/lib/fsm-parser';
+import { minimizeDFA, mergedStates } from '@/lib/fsm-minimizer';
+import { generateFSMSteps } from '@/lib/fsm-step-generator';
+
+// Divisible by 2, written with redundant states: 1 and 3 are equivalent, as are 2 and 4; 5 is unreachable
+const redundant = `Name = "even"
+states = 5
+symbols = {0, 1}
+transitions =
+1: 0.3, 1.2
+2: 0.1, 1.4
+3: 0.1, 1.4
+4: 0.3, 1.2
+5: 0.5, 1.5
+startstate = 1
+acceptstate = {1, 3}`;
+
+describe('FSM Minimizer', () => {
+  it('should merge equivalent states and drop unreachable ones', () => {
+    const { dfa, mapping, unreachable } = minimizeDFA(parseFSMFile(redundant));
+
+    expect(dfa.states).toBe(2);
+    expect(dfa.transitions).toEqual({ 1: [['0', '1'], ['1', '2']], 2: [['0', '1'], ['1', '2']] });
+    expect(dfa.acceptstates).toEqual(new Set([1]));
+    expect(mapping).toEqual({ 1: 1, 2: 2, 3: 1, 4: 2, 5: null });
+    expect(unreachable).toEqual([5]);
+  });
+
+  it('should keep states apart when their outputs differ', () => {
+    // 1 and 3 now differ, so 2 and 4 (which move to them on 0) differ too
+    const fsm = parseFSMFile(`${redundant}\noutputs = {1: a, 2: b, 3: c, 4: b, 5: a}`);
+
+    expect(minimizeDFA(fsm).dfa.states).toBe(4);
+  });
+
+  it('should refuse NFAs', () => {
+    const nfa = parseFSMFile(redundant.replace('states = 5', 'mode = nfa\nstates = 5'));
+
+    expect(() => minimizeDFA(nfa)).toThrow('needs a deterministic machine');
+  });
+
+  it('should accept the same strings as the original', () => {
+    const fsm = parseFSMFile(redundant);
+    const { dfa } = minimizeDFA(fsm);
+
+    for (const input of ['', '0', '1', '10', '11', '0110', '1011']) {
+      expect(runFSM(dfa, input).accepted).toBe(runFSM(fsm, input).accepted);
+    }
+  });
+
+  it('should group the original states behind each minimized state', () => {
+    expect(mergedStates(minimizeDFA(parseFSMFile(redundant)))).toEqual({ 1: [1, 3], 2: [2, 4] });
+  });
+
+  it('should map 0-based and named machines onto their own scheme', () => {
+    const zeroBased = parseFSMFile(`Name = "even"
+states = 5
+symbols = {0, 1}
+indexing = 0
+transitions =
+0: 0.2, 1.1
+1: 0.0, 1.3
+2: 0.0, 1.3
+3: 0.2, 1.1
+4: 0.4, 1.4
+startstate = 0
+acceptstate = {0, 2}`);
+    expect(minimizeDFA(zeroBased).mapping).toEqual({ 0: 0, 1: 1, 2: 0, 3: 1, 4: null });
+
+    const named = parseFSMFile(`Name = "parity"
+states = {even, odd, even2}
+symbols = {0, 1}
+transitions =
+even: 0.even2, 1.odd
+odd: 0.odd, 1.even
+even2: 0.even, 1.odd
+startstate = even
+acceptstate = {even, even2}`);
+    const { dfa } = minimizeDFA(named);
+    expect(dfa.states).toBe(2);
+    expect(Object.values(dfa.stateNames)).toEqual(['even', 'odd']);
+  });
+
+  it('should leave fewer competing states per step', () => {
+    const fsm = parseFSMFile(redundant);
+    const before = generateFSMSteps(fsm, '0110').steps[1].states.length;
+    const after = generateFSMSteps(minimizeDFA(fsm).dfa, '0110').steps[1].states.length;
+
+    expect(after).toBeLessThan(before);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile, runFSM, EPSILON } from '@/lib/fsm-parser';
+import { runNFA, epsilonClosure, nfaToDFA } from '@/lib/fsm-nfa';
+
+// Binary strings ending in 01
+const endsWith01 = `Name = "ends01"
+mode = nfa
+states = 3
+symbols = {0, 1}
+transitions =
+1: 0.1, 1.1, 0.2
+2: 1.3
+startstate = 1
+acceptstate = 3`;
+
+// a*b* via an ε transition between the two loops
+const aStarBStar = `Name = "astarbstar"
+mode = nfa
+indexing = 0
+states = {A, B}
+symbols = {a, b}
+transitions = {
+  A: { "a": A, "ε": B },
+  B: { "b": B }
+}
+startstate = A
+acceptstate = B`;
+
+const allStrings = (symbols: string[], maxLength: number): string[] => {
+  const result = [''];
+  for (let i = 0; i < result.length; i++) {
+    if (result[i].length < maxLength) {
+      result.push(...symbols.map(s => result[i] + s));
+    }
+  }
+  return result;
+};
+
+describe('FSM Parser - NFA mode', () => {
+  it('should allow several targets per symbol and states without rows', () => {
+    const fsm = parseFSMFile(endsWith01);
+
+    expect(fsm.mode).toBe('nfa');
+    expect(fsm.transitions[1]).toEqual([['0', '1'], ['1', '1'], ['0', '2']]);
+    expect(fsm.transitions[3]).toEqual([]);
+  });
+
+  it('should store ε, eps and epsilon transitions as EPSILON', () => {
+    const fsm = parseFSMFile(aStarBStar);
+
+    expect(fsm.transitions[0]).toEqual([['a', '0'], [EPSILON, '1']]);
+    expect(parseFSMFile(endsWith01.replace('2: 1.3', '2: 1.3, epsilon.1')).transitions[2])
+      .toEqual([['1', '3'], [EPSILON, '1']]);
+  });
+
+  it('should reject nondeterminism and ε transitions without mode = nfa', () => {
+    expect(() => parseFSMFile(`Name = "twice"
+states = 2
+symbols = {0, 1}
+transitions =
+1: 0.1, 0.2
+2: 0.2, 1.2
+startstate = 1
+acceptstate = 2`)).toThrow("State 1 has more than one transition on '0'");
+    expect(() => parseFSMFile(aStarBStar.replace('mode = nfa\n', ''))).toThrow("ε transitions need 'mode = nfa'");
+  });
+
+  it('should reject an unknown mode', () => {
+    expect(() => parseFSMFile(endsWith01.replace('mode = nfa', 'mode = pda'))).toThrow('Mode must be dfa, partial or nfa');
+  });
+
+  it('should refuse to follow a single path through an NFA', () => {
+    expect(runFSM(parseFSMFile(endsWith01), '01').error).toMatch(/Nondeterministic/);
+  });
+});
+
+describe('FSM NFA - simulation', () => {
+  it('should trace the active state set after each symbol', () => {
+    const result = runNFA(parseFSMFile(endsWith01), '001');
+
+    expect(result.accepted).toBe(true);
+    expect(result.trace).toEqual([
+      { states: [1] },
+      { symbol: '0', states: [1, 2] },
+      { symbol: '0', states: [1, 2] },
+      { symbol: '1', states: [1, 3] },
+    ]);
+    expect(result.endStates).toEqual([1, 3]);
+  });
+
+  it('should follow ε transitions before and after each symbol', () => {
+    const fsm = parseFSMFile(aStarBStar);
+
+    expect(epsilonClosure(fsm, [0])).toEqual([0, 1]);
+    expect(runNFA(fsm, '').accepted).toBe(true);
+    expect(runNFA(fsm, 'aabb').accepted).toBe(true);
+    expect(runNFA(fsm, 'ba').accepted).toBe(false);
+    expect(runNFA(fsm, 'ba').error).toBe("No active states left after 'a'");
+  });
+
+  it('should report symbols outside the alphabet', () => {
+    expect(runNFA(parseFSMFile(endsWith01), '0x').error).toBe("Position 2: Symbol 'x' is not in the alphabet {0, 1}");
+  });
+});
+
+describe('FSM NFA - subset construction', () => {
+  for (const [label, content] of [['ends01', endsWith01], ['a*b*', aStarBStar]]) {
+    it(`should build a DFA accepting the same strings as ${label}`, () => {
+      const nfa = parseFSMFile(content);
+      const { dfa } = nfaToDFA(nfa);
+
+      expect(dfa.mode).toBe('dfa');
+      for (const input of allStrings(nfa.symbols, 6)) {
+        expect(runFSM(dfa, input).accepted).toBe(runNFA(nfa, input).accepted);
+      }
+    });
+  }
+
+  it('should number subsets breadth-first and keep a dead state for the empty set', () => {
+    const { dfa, subsets } = nfaToDFA(parseFSMFile(aStarBStar));
+
+    expect(dfa.zeroIndexed).toBe(true);
+    expect(subsets).toEqual({ 0: [0, 1], 1: [1], 2: [] });
+    expect(dfa.transitions[2]).toEqual([['a', '2'], ['b', '2']]);
+    expect([...dfa.acceptstates]).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseFSMFile } from '@/lib/fsm-parser';
+import { compileRegex } from '@/lib/regex-compiler';
+import {
+  compareWithOracle,
+  referenceVerdict,
+  verificationCases,
+  verifyAgainstReference,
+} from '@/lib/fsm-oracle';
+
+const sampleFile = readFileSync(resolve(__dirname, '../../public/sample-fsm.txt'), 'utf8');
+
+// The sample as it used to be: state 1 loops on everything and accepts, so every input passes
+const brokenSample = `Name = "divby4fsm"
+states = 4
+symbols = {0, 1}
+transitions = {
+  1: { "0": 1, "1": 1 },
+  2: { "0": 2, "1": 3 },
+  3: { "0": 1, "1": 1 },
+  4: { "0": 2, "1": 3 }
+}
+startstate = 1
+acceptstate = 1`;
+
+// The predicate a user would type as the oracle, applied here directly
+const divisibleBy4 = (x: string) => parseInt(x, 2) % 4 === 0;
+
+describe('FSM Oracle', () => {
+  it('should find every input the broken sample gets wrong', () => {
+    const { cases, truncated } = verificationCases(parseFSMFile(brokenSample), 4);
+    const result = compareWithOracle(cases, cases.map(c => divisibleBy4(c.input)), truncated);
+
+    expect(result.checked).toBe(31);
+    expect(result.truncated).toBe(false);
+    expect(result.mismatches[0]).toMatchObject({ input: '', accepted: true, expected: false });
+    expect(result.mismatches.map(m => m.input)).toContain('1');
+    expect(result.mismatches.every(m => m.accepted && !m.expected)).toBe(true);
+  });
+
+  it('should agree with the oracle on the shipped sample', () => {
+    const { cases } = verificationCases(parseFSMFile(sampleFile), 10);
+    const result = compareWithOracle(cases, cases.map(c => divisibleBy4(c.input)));
+
+    expect(result.checked).toBe(2047);
+    expect(result.mismatches).toEqual([]);
+  });
+
+  it('should verify against a reference machine', () => {
+    const reference = compileRegex('0|(0|1)*00', { alphabet: ['0', '1'] });
+
+    expect(verifyAgainstReference(parseFSMFile(sampleFile), reference, 8).mismatches).toEqual([]);
+
+    const broken = verifyAgainstReference(parseFSMFile(brokenSample), reference, 3);
+    expect(broken.mismatches.map(m => m.input)).toEqual(['', '1', '01', '10', '11', '001', '010', '011', '101', '110', '111']);
+  });
+
+  it('should reject symbols the reference does not know', () => {
+    const reference = compileRegex('a*', { alphabet: ['a'] });
+
+    expect(referenceVerdict(reference, ['a', 'a'])).toBe(true);
+    expect(referenceVerdict(reference, ['a', 'b'])).toBe(false);
+  });
+
+  it('should stop at the limit and say so', () => {
+    const { cases, truncated } = verificationCases(parseFSMFile(sampleFile), 20, 100);
+
+    expect(cases).toHaveLength(100);
+    expect(truncated).toBe(true);
+  });
+
+  it('should refuse an oracle answer of the wrong size', () => {
+    const { cases } = verificationCases(parseFSMFile(sampleFile), 2);
+
+    expect(() => compareWithOracle(cases, [true])).toThrow('The oracle answered 1 of 7 inputs');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseFSMFile, runFSM } from '@/lib/fsm-parser';
+import { parseFSMFile, parseFSMFileWithDiagnostics, runFSM, stateLabel, FSMValidationError } from '@/lib/fsm-parser';
 
 describe('FSM Parser - JSON-like format', () => {
   // JSON-like format: { "symbol": targetState }
@@ -27,7 +27,7 @@ acceptstate = 1`;
     expect(fsm.states).toBe(4);
     expect(fsm.symbols).toEqual(['0', '1']);
     expect(fsm.startstate).toBe(1);
-    expect(fsm.acceptstate).toBe(1);
+    expect(fsm.acceptstates).toEqual(new Set([1]));
     expect(fsm.zeroIndexed).toBe(false); // Should be 1-based
   });
 
@@ -54,3 +54,520 @@ acceptstate = 1`;
     expect(result.endState).toBe(1);
   });
 });
+
+describe('FSM Parser - multiple accept states', () => {
+  // Remainder mod 3 of a binary number, accepting remainder 0 or 2
+  const mod3File = `Name = "mod3"
+states = 3
+symbols = {0, 1}
+transitions = {
+  0: { "0": 0, "1": 1 },
+  1: { "0": 2, "1": 0 },
+  2: { "0": 1, "1": 2 }
+}
+startstate = 0
+acceptstate = {0, 2}`;
+
+  it('should parse a set of accept states', () => {
+    const fsm = parseFSMFile(mod3File);
+
+    expect(fsm.acceptstates).toEqual(new Set([0, 2]));
+  });
+
+  it('should accept inputs ending in any accept state', () => {
+    const fsm = parseFSMFile(mod3File);
+
+    expect(runFSM(fsm, '110').accepted).toBe(true); // 6 mod 3 = 0
+    expect(runFSM(fsm, '101').accepted).toBe(true); // 5 mod 3 = 2
+    expect(runFSM(fsm, '100').accepted).toBe(false); // 4 mod 3 = 1
+  });
+
+  it('should shift every accept state when normalizing a shifted file', () => {
+    const shifted = `Name = "shifted"
+states = 3
+symbols = {0, 1}
+transitions =
+1: 0.0, 1.1
+2: 0.2, 1.0
+3: 0.1, 1.2
+startstate = 1
+acceptstate = {1, 3}`;
+    const fsm = parseFSMFile(shifted);
+
+    expect(fsm.zeroIndexed).toBe(true);
+    expect(fsm.startstate).toBe(0);
+    expect(fsm.acceptstates).toEqual(new Set([0, 2]));
+  });
+
+  it('should reject accept states outside the state range', () => {
+    expect(() => parseFSMFile(mod3File.replace('{0, 2}', '{0, 5}'))).toThrow(/Accept state 5 is invalid/);
+  });
+});
+
+describe('FSM Parser - named states', () => {
+  const parityFile = `Name = "parity"
+states = {even, odd}
+symbols = {0, 1}
+transitions =
+even: on '0' move 'even', on '1' move 'odd'
+odd: on '0' move 'odd', on '1' move 'even'
+startstate = even
+acceptstate = even`;
+
+  it('should number named states in declaration order', () => {
+    const fsm = parseFSMFile(parityFile);
+
+    expect(fsm.namedStates).toBe(true);
+    expect(fsm.zeroIndexed).toBe(false);
+    expect(fsm.states).toBe(2);
+    expect(fsm.stateIndex).toEqual({ even: 1, odd: 2 });
+    expect(fsm.stateNames).toEqual({ 1: 'even', 2: 'odd' });
+    expect(fsm.transitions[1]).toEqual([['0', '1'], ['1', '2']]);
+    expect(fsm.startstate).toBe(1);
+    expect(fsm.acceptstates).toEqual(new Set([1]));
+  });
+
+  it('should label named states by name', () => {
+    const fsm = parseFSMFile(parityFile);
+
+    expect(stateLabel(fsm, 2)).toBe('odd');
+    expect(runFSM(fsm, '101').accepted).toBe(true);
+    expect(runFSM(fsm, '1').endState).toBe(fsm.stateIndex.odd);
+  });
+
+  it('should infer names from transition rows in JSON format', () => {
+    const fsm = parseFSMFile(`Name = "carry"
+states = 2
+symbols = {0, 1}
+transitions = {
+  r0: { "0": r0, "1": carry },
+  carry: { "0": r0, "1": carry }
+}
+startstate = r0
+acceptstate = {carry}`);
+
+    expect(fsm.stateIndex).toEqual({ r0: 1, carry: 2 });
+    expect(fsm.acceptstates).toEqual(new Set([2]));
+  });
+
+  it('should reject references to undeclared states', () => {
+    expect(() => parseFSMFile(parityFile.replace("move 'even', on '1'", "move 'evn', on '1'"))).toThrow(/unknown state 'evn'/);
+  });
+
+  it('should read rows for states whose names start with a field name', () => {
+    const rows = (format: 'plain' | 'json') => format === 'plain'
+      ? 'transitions =\nstart: 0.nameless, 1.mode_a\nnameless: 0.states2, 1.start\nmode_a: 0.start, 1.start\nstates2: 0.start, 1.start'
+      : 'transitions = {\n  start: { "0": nameless, "1": mode_a },\n  nameless: { "0": states2, "1": start },\n  mode_a: { "0": start, "1": start },\n  states2: { "0": start, "1": start }\n}';
+
+    for (const format of ['plain', 'json'] as const) {
+      const { fsm, diagnostics } = parseFSMFileWithDiagnostics(`Name = "prefixes"
+states = {start, nameless, mode_a, states2}
+symbols = {0, 1}
+${rows(format)}
+startstate = start
+acceptstate = states2`);
+
+      expect(diagnostics).toEqual([]);
+      expect(fsm.transitions[fsm.stateIndex.nameless]).toEqual([['0', '4'], ['1', '1']]);
+      expect(runFSM(fsm, '00').endState).toBe(fsm.stateIndex.states2);
+    }
+  });
+
+  it('should keep a numeric name table for numeric machines', () => {
+    const fsm = parseFSMFile(`Name = "numeric"
+states = 2
+symbols = {0, 1}
+transitions =
+1: 0.1, 1.2
+2: 0.2, 1.1
+startstate = 1
+acceptstate = 2`);
+
+    expect(fsm.namedStates).toBe(false);
+    expect(fsm.stateIndex).toEqual({ '1': 1, '2': 2 });
+    expect(stateLabel(fsm, 2)).toBe('q2');
+  });
+});
+
+describe('FSM Parser - symbol alphabets', () => {
+  it('should accept letter symbols in the JSON-like format', () => {
+    const fsm = parseFSMFile(`Name = "ab"
+states = 2
+symbols = {a, b}
+transitions = {
+  1: { "a": 2, "b": 1 },
+  2: { "a": 2, "b": 1 }
+}
+startstate = 1
+acceptstate = 2`);
+
+    expect(fsm.symbols).toEqual(['a', 'b']);
+    expect(fsm.transitions[1]).toEqual([['a', '2'], ['b', '1']]);
+  });
+
+  it('should accept letter symbols in the on/move format', () => {
+    const fsm = parseFSMFile(`Name = "dna"
+states = 1
+symbols = {A, C, G, T}
+transitions =
+1: on 'A' move '1', on 'C' move '1', on 'G' move '1', on 'T' move '1'
+startstate = 1
+acceptstate = 1`);
+
+    expect(fsm.transitions[1].map(([symbol]) => symbol)).toEqual(['A', 'C', 'G', 'T']);
+  });
+
+  it('should keep multi-digit symbols intact in the dotted format', () => {
+    const fsm = parseFSMFile(`Name = "pairs"
+states = 2
+symbols = {00, 01, 10, 11}
+transitions =
+1: 00.1, 01.2, 10.2, 11.1
+2: 00.2, 01.1, 10.1, 11.2
+startstate = 1
+acceptstate = 1`);
+
+    expect(fsm.transitions[1]).toEqual([['00', '1'], ['01', '2'], ['10', '2'], ['11', '1']]);
+  });
+
+  it('should allow quoted symbols containing commas and spaces', () => {
+    const fsm = parseFSMFile(`Name = "quoted"
+states = 1
+symbols = {"x, y", 'a b'}
+transitions =
+1: on 'x, y' move '1', on 'a b' move '1'
+startstate = 1
+acceptstate = 1`);
+
+    expect(fsm.symbols).toEqual(['x, y', 'a b']);
+    expect(fsm.transitions[1]).toEqual([['x, y', '1'], ['a b', '1']]);
+  });
+
+  it('should report undeclared symbols with their line number', () => {
+    const file = `Name = "ab"
+states = 2
+symbols = {a, b}
+transitions = {
+  1: { "a": 2, "b": 1 },
+  2: { "a": 2, "c": 1 }
+}
+startstate = 1
+acceptstate = 2`;
+
+    expect(() => parseFSMFile(file)).toThrow("Line 6: State 2: symbol 'c' is not in the declared alphabet {a, b}");
+  });
+});
+
+describe('FSM Parser - diagnostics mode', () => {
+  const brokenFile = `Name = "broken"
+states = 3
+symbols = {0, 1}
+transitions =
+1: 0.1, 1.2
+2: 0.2, 2.3
+3: 0.4, 1.1
+startstate = 1
+acceptstate = {1, 7}`;
+
+  it('should report every error instead of stopping at the first', () => {
+    const { fsm, diagnostics } = parseFSMFileWithDiagnostics(brokenFile);
+
+    expect(fsm).toBeNull();
+    expect(diagnostics.filter(d => d.severity === 'error').map(d => [d.code, d.line])).toEqual([
+      ['unknown-symbol', 6],
+      ['invalid-accept', 9],
+      ['invalid-target', 7],
+    ]);
+  });
+
+  it('should narrow the range to the offending token', () => {
+    const { diagnostics } = parseFSMFileWithDiagnostics(brokenFile);
+    const unknownSymbol = diagnostics.find(d => d.code === 'unknown-symbol')!;
+
+    expect(unknownSymbol).toMatchObject({ line: 6, column: 9, endLine: 6, endColumn: 10 });
+  });
+
+  it('should return the machine along with warnings when there are no errors', () => {
+    const { fsm, diagnostics } = parseFSMFileWithDiagnostics(`Name = "dup"
+states = 1
+symbols = {0}
+transitions =
+1: 0.1
+1: 0.1
+startstate = 1
+acceptstate = 1`);
+
+    expect(fsm).not.toBeNull();
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ severity: 'warning', code: 'duplicate-row', line: 6 });
+  });
+
+  it('should report missing fields once at file level', () => {
+    const { diagnostics } = parseFSMFileWithDiagnostics(`Name = "missing"
+states = 1
+symbols = {0}`);
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ code: 'missing-field', line: 0, message: 'Missing required fields: transitions, startstate, acceptstate' }),
+    ]);
+  });
+
+  it('should still throw on the first error in strict mode', () => {
+    expect(() => parseFSMFile(brokenFile)).toThrow(FSMValidationError);
+  });
+});
+
+describe('FSM Parser - indexing declaration', () => {
+  const shiftedFile = `Name = "shifted"
+states = 2
+symbols = {0, 1}
+transitions =
+1: 0.0, 1.1
+2: 0.1, 1.0
+startstate = 1
+acceptstate = 2`;
+
+  it('should warn when a shifted file is normalized', () => {
+    const { fsm, diagnostics } = parseFSMFileWithDiagnostics(shiftedFile);
+
+    expect(fsm.zeroIndexed).toBe(true);
+    expect(fsm.indexingSource).toBe('normalized');
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ severity: 'warning', code: 'indexing-normalized', line: 4 }),
+    ]);
+  });
+
+  it('should not guess when indexing is declared', () => {
+    const { fsm, diagnostics } = parseFSMFileWithDiagnostics(`Name = "declared"
+indexing = 0
+states = 2
+symbols = {0, 1}
+transitions =
+0: 0.0, 1.1
+1: 0.1, 1.0
+startstate = 0
+acceptstate = 1`);
+
+    expect(fsm.zeroIndexed).toBe(true);
+    expect(fsm.indexingSource).toBe('declared');
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should report a shifted file as invalid when indexing = 1 is declared', () => {
+    const { fsm, diagnostics } = parseFSMFileWithDiagnostics(`indexing = 1\n${shiftedFile}`);
+
+    expect(fsm).toBeNull();
+    expect(diagnostics.map(d => d.code)).toContain('invalid-target');
+  });
+
+  it('should number named states from 0 when indexing = 0 is declared', () => {
+    const fsm = parseFSMFile(`Name = "parity"
+indexing = 0
+states = {even, odd}
+symbols = {0, 1}
+transitions =
+even: 0.even, 1.odd
+odd: 0.odd, 1.even
+startstate = even
+acceptstate = even`);
+
+    expect(fsm.zeroIndexed).toBe(true);
+    expect(fsm.stateIndex).toEqual({ even: 0, odd: 1 });
+  });
+
+  it('should not warn for files that clearly fit one scheme', () => {
+    const { diagnostics } = parseFSMFileWithDiagnostics(`Name = "clear"
+states = 2
+symbols = {0, 1}
+transitions =
+1: 0.1, 1.2
+2: 0.2, 1.1
+startstate = 1
+acceptstate = 2`);
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('should reject indexing values other than 0 or 1', () => {
+    expect(() => parseFSMFile(`indexing = 2\n${shiftedFile}`)).toThrow('Line 1: Indexing must be 0 or 1');
+  });
+});
+
+describe('FSM Parser - comments and metadata', () => {
+  const commentedFile = `# Divisible-by-3 checker
+Name = "div3" // shown in the UI
+description = "Accepts binary numbers divisible by 3"
+author = Ada Lovelace
+version = '1.2'
+
+states = 3
+symbols = {0, 1, "#"}   # '#' is a real symbol here
+
+transitions =
+
+{
+  // remainder 0
+  1: { "0": 1, "1": 2, "#": 1 },
+
+  2: { "0": 3, "1": 1, "#": 2 }, # remainder 1
+  3: { "0": 2, "1": 3, "#": 3 }
+}
+
+startstate = 1 # start at remainder 0
+acceptstate = 1`;
+
+  it('should ignore # and // comments outside quotes', () => {
+    const { fsm, diagnostics } = parseFSMFileWithDiagnostics(commentedFile);
+
+    expect(diagnostics).toEqual([]);
+    expect(fsm.name).toBe('div3');
+    expect(fsm.symbols).toEqual(['0', '1', '#']);
+    expect(fsm.transitions[2]).toEqual([['0', '3'], ['1', '1'], ['#', '2']]);
+    expect(fsm.startstate).toBe(1);
+  });
+
+  it('should keep a # that does not follow whitespace', () => {
+    const fsm = parseFSMFile(`Name = "hash"
+states = 1
+symbols = {a,#, b#}
+transitions =
+1: a.1,#.1,b#.1 # every symbol loops
+startstate = 1
+acceptstate = 1`);
+
+    expect(fsm.symbols).toEqual(['a', '#', 'b#']);
+    expect(fsm.transitions[1]).toEqual([['a', '1'], ['#', '1'], ['b#', '1']]);
+  });
+
+  it('should say how to write # as a symbol after a space', () => {
+    const { diagnostics } = parseFSMFileWithDiagnostics(commentedFile.replace('symbols = {0, 1, "#"}', 'symbols = {0, 1, #}'));
+
+    expect(diagnostics).toContainEqual(expect.objectContaining({
+      code: 'invalid-symbols',
+      line: 8,
+      message: expect.stringContaining("quote it to use it as a symbol, e.g. symbols = {a, '#'}"),
+    }));
+  });
+
+  it('should say how to write # as a symbol in a transition row', () => {
+    const { diagnostics } = parseFSMFileWithDiagnostics(`Name = "hash"
+states = 2
+symbols = {0, '#'}
+transitions =
+1: 0.1, #.2
+2: 0.2, '#'.1
+startstate = 1
+acceptstate = 2`);
+
+    expect(diagnostics).toEqual([expect.objectContaining({
+      code: 'transition-count',
+      line: 5,
+      message: expect.stringContaining("quote it to use it as a symbol, e.g. 0.1, '#'.2"),
+    })]);
+  });
+
+  it('should keep metadata fields on the machine', () => {
+    const fsm = parseFSMFile(commentedFile);
+
+    expect(fsm.metadata).toEqual({
+      description: 'Accepts binary numbers divisible by 3',
+      author: 'Ada Lovelace',
+      version: '1.2',
+    });
+  });
+
+  it('should end a transitions block at a metadata field', () => {
+    const fsm = parseFSMFile(`Name = "short"
+states = 1
+symbols = {0}
+transitions =
+1: 0.1
+author = "Grace"
+startstate = 1
+acceptstate = 1`);
+
+    expect(fsm.metadata.author).toBe('Grace');
+  });
+
+  it('should not require a comment-only line to mention required fields', () => {
+    expect(() => parseFSMFile(`# acceptstate goes here
+Name = "x"
+states = 1
+symbols = {0}
+transitions =
+1: 0.1
+startstate = 1`)).toThrow('Missing required fields: acceptstate');
+  });
+});
+
+describe('FSM Parser - transducer outputs', () => {
+  // Adds one to a binary number written least significant bit first
+  const increment = `Name = "increment"
+states = {carry, done}
+symbols = {0, 1}
+transitions =
+carry: on '0' move 'done' emit '1', on '1' move 'carry' emit '0'
+done: on '0' move 'done' emit '0', on '1' move 'done' emit '1'
+startstate = carry
+acceptstate = done`;
+
+  const parity = `Name = "parity"
+states = 2
+symbols = {0, 1}
+transitions =
+1: 0.1, 1.2
+2: 0.2, 1.1
+startstate = 1
+acceptstate = 1
+outputs = {1: even, 2: "odd"}`;
+
+  it('should read Mealy outputs in every transition syntax', () => {
+    const onMove = parseFSMFile(increment);
+    const dotted = parseFSMFile(increment
+      .replace("carry: on '0' move 'done' emit '1', on '1' move 'carry' emit '0'", 'carry: 0.done/1, 1.carry/0')
+      .replace("done: on '0' move 'done' emit '0', on '1' move 'done' emit '1'", 'done: 0.done/0, 1.done/1'));
+    const json = parseFSMFile(increment
+      .replace("carry: on '0' move 'done' emit '1', on '1' move 'carry' emit '0'", 'carry: { "0": done / "1", "1": carry / "0" }')
+      .replace("done: on '0' move 'done' emit '0', on '1' move 'done' emit '1'", 'done: { "0": done / "0", "1": done / "1" }')
+      .replace('transitions =', 'transitions = {')
+      .replace('startstate', '}\nstartstate'));
+
+    expect(onMove.transitionOutputs).toEqual({ 1: { '0': '1', '1': '0' }, 2: { '0': '0', '1': '1' } });
+    expect(dotted.transitionOutputs).toEqual(onMove.transitionOutputs);
+    expect(json.transitionOutputs).toEqual(onMove.transitionOutputs);
+  });
+
+  it('should return the Mealy output string from runFSM', () => {
+    const result = runFSM(parseFSMFile(increment), '1101');
+
+    expect(result.output).toBe('0011');
+    expect(result.path.map(step => step.output)).toEqual([undefined, '0', '0', '1', '1']);
+  });
+
+  it('should read Moore outputs and emit one per state entered', () => {
+    const fsm = parseFSMFile(parity);
+
+    expect(fsm.stateOutputs).toEqual({ 1: 'even', 2: 'odd' });
+    expect(runFSM(fsm, '110').output).toBe('oddeveneven');
+  });
+
+  it('should renumber Moore outputs of shifted files', () => {
+    const fsm = parseFSMFile(`Name = "shifted"
+states = 2
+symbols = {0, 1}
+transitions =
+1: 0.0, 1.1/x
+2: 0.1, 1.0
+startstate = 1
+acceptstate = 2
+outputs = {1: a, 2: b}`);
+
+    expect(fsm.stateOutputs).toEqual({ 0: 'a', 1: 'b' });
+    expect(fsm.transitionOutputs).toEqual({ 0: { '1': 'x' } });
+  });
+
+  it('should reject outputs for unknown states and for NFAs', () => {
+    expect(() => parseFSMFile(parity.replace('2: "odd"', '3: "odd"'))).toThrow('State output for 3 is invalid');
+    expect(() => parseFSMFile(parity.replace('states = 2', 'mode = nfa\nstates = 2'))).toThrow('need a deterministic machine');
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile, runFSM } from '@/lib/fsm-parser';
+import { serializeFSM } from '@/lib/fsm-serializer';
+import { checkEquivalence } from '@/lib/fsm-equivalence';
+import { compileRegex } from '@/lib/regex-compiler';
+import { enumerateStrings } from '@/lib/fsm-language';
+import { complementFSM, productFSM } from '@/lib/fsm-product';
+
+// Binary numbers divisible by 3, 0-based, remainder as state
+const mod3 = `Name = "mod3"
+indexing = 0
+states = 3
+symbols = {0, 1}
+transitions =
+0: 0.0, 1.1
+1: 0.2, 1.0
+2: 0.1, 1.2
+startstate = 0
+acceptstate = {0}`;
+
+// Ends in 1, named
+const endsIn1 = `Name = "ends1"
+states = {last0, last1}
+symbols = {1, 0}
+transitions =
+last0: 0.last0, 1.last1
+last1: 0.last0, 1.last1
+startstate = last0
+acceptstate = last1`;
+
+// Partial DFA: exactly "01"
+const exactly01 = `Name = "exactly01"
+mode = partial
+states = 3
+symbols = {0, 1}
+transitions =
+1: 0.2
+2: 1.3
+startstate = 1
+acceptstate = {3}`;
+
+const alphabet = ['0', '1'];
+
+describe('FSM Product', () => {
+  it('should combine accept conditions for every operation', () => {
+    const a = parseFSMFile(mod3);
+    const b = parseFSMFile(endsIn1);
+    const expected = {
+      union: (x: boolean, y: boolean) => x || y,
+      intersection: (x: boolean, y: boolean) => x && y,
+      difference: (x: boolean, y: boolean) => x && !y,
+      'symmetric-difference': (x: boolean, y: boolean) => x !== y,
+    };
+
+    for (const [operation, combine] of Object.entries(expected)) {
+      const product = productFSM(a, b, operation as keyof typeof expected);
+      for (const { symbols } of enumerateStrings(product, 7).strings) {
+        const input = symbols.join('');
+        expect(runFSM(product, input).accepted, `${operation} on '${input}'`)
+          .toBe(combine(runFSM(a, input).accepted, runFSM(b, input).accepted));
+      }
+    }
+  });
+
+  it('should keep the first machine\'s indexing and name states after both machines', () => {
+    const product = productFSM(parseFSMFile(mod3), parseFSMFile(endsIn1), 'intersection');
+
+    expect(product.name).toBe('mod3_and_ends1');
+    expect(product.zeroIndexed).toBe(true);
+    expect(product.startstate).toBe(0);
+    expect(product.mode).toBe('dfa');
+    expect(product.symbols).toEqual(['0', '1']);
+    expect(product.states).toBe(6);
+    expect(product.stateNames[0]).toBe('q0_last0');
+  });
+
+  it('should round-trip through the serializer', () => {
+    const product = productFSM(parseFSMFile(mod3), parseFSMFile(endsIn1), 'union');
+    const reparsed = parseFSMFile(serializeFSM(product));
+
+    expect(checkEquivalence(product, reparsed).equivalent).toBe(true);
+  });
+
+  it('should match the regular expression for the same language', () => {
+    const contains00 = compileRegex('(0|1)*00(0|1)*', { alphabet });
+    const endsIn0 = compileRegex('(0|1)*0', { alphabet });
+
+    const both = productFSM(contains00, endsIn0, 'intersection');
+    expect(checkEquivalence(both, compileRegex('(0|1)*00|(0|1)*00(0|1)*0', { alphabet })).equivalent).toBe(true);
+
+    const neither = productFSM(endsIn0, contains00, 'difference');
+    expect(checkEquivalence(neither, compileRegex('(1|01)*0', { alphabet })).equivalent).toBe(true);
+  });
+
+  it('should produce an empty accept set when nothing is accepted', () => {
+    const a = parseFSMFile(mod3);
+    const empty = productFSM(a, a, 'symmetric-difference');
+
+    expect(empty.acceptstates.size).toBe(0);
+    const reparsed = parseFSMFile(serializeFSM(empty));
+    expect(reparsed.acceptstates.size).toBe(0);
+    expect(runFSM(reparsed, '').accepted).toBe(false);
+  });
+
+  it('should reject machines over different alphabets', () => {
+    const abc = compileRegex('a*b', { alphabet: ['a', 'b'] });
+
+    expect(() => productFSM(parseFSMFile(mod3), abc, 'union')).toThrow(/same alphabet/);
+  });
+});
+
+describe('FSM Complement', () => {
+  it('should accept everything a partial machine drops', () => {
+    const fsm = parseFSMFile(exactly01);
+    const complement = complementFSM(fsm);
+
+    expect(complement.name).toBe('exactly01_complement');
+    expect(complement.mode).toBe('dfa');
+    for (const { symbols } of enumerateStrings(complement, 5).strings) {
+      const input = symbols.join('');
+      expect(runFSM(complement, input).accepted).toBe(input !== '01');
+    }
+  });
+
+  it('should determinize an NFA before flipping', () => {
+    const nfa = parseFSMFile(`Name = "ends01"
+mode = nfa
+states = 3
+symbols = {0, 1}
+transitions =
+1: 0.1, 1.1, 0.2
+2: 1.3
+startstate = 1
+acceptstate = 3`);
+    const complement = complementFSM(nfa);
+
+    expect(complement.mode).toBe('dfa');
+    expect(checkEquivalence(complement, compileRegex('ε|0|1|(0|1)*(00|10|11)', { alphabet })).equivalent).toBe(true);
+  });
+});
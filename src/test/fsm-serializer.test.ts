@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile, FSMData } from '@/lib/fsm-parser';
+import { serializeFSM, TransitionSyntax } from '@/lib/fsm-serializer';
+
+const SYNTAXES: TransitionSyntax[] = ['json', 'on-move', 'dotted'];
+
+const machines: Record<string, string> = {
+  'one-based': `Name = "divby4fsm"
+states = 4
+symbols = {0, 1}
+transitions = {
+  1: { "0": 1, "1": 1 },
+  2: { "0": 2, "1": 3 },
+  3: { "0": 1, "1": 1 },
+  4: { "0": 2, "1": 3 }
+}
+startstate = 1
+acceptstate = 1`,
+  'zero-based': `Name = "mod3"
+states = 3
+symbols = {0, 1}
+transitions =
+0: 0.0, 1.1
+1: 0.2, 1.0
+2: 0.1, 1.2
+startstate = 0
+acceptstate = {0, 2}`,
+  shifted: `Name = "shifted"
+states = 2
+symbols = {0, 1}
+transitions =
+1: 0.0, 1.1
+2: 0.1, 1.0
+startstate = 1
+acceptstate = 2`,
+  named: `Name = "parity"
+description = "Even number of b's"
+author = 'Ada "Countess" Lovelace'
+states = {even, odd}
+symbols = {a, b}
+transitions =
+even: on 'a' move 'even', on 'b' move 'odd'
+odd: on 'a' move 'odd', on 'b' move 'even'
+startstate = even
+acceptstate = even`,
+  'quoted symbols': `Name = "quoted"
+states = 1
+symbols = {"x, y", 'a b', c.d}
+transitions =
+1: on 'x, y' move '1', on 'a b' move '1', on 'c.d' move '1'
+startstate = 1
+acceptstate = 1`,
+  nfa: `Name = "ends01"
+mode = nfa
+states = 3
+symbols = {0, 1}
+transitions =
+1: 0.1, 1.1, 0.2
+2: 1.3, eps.1
+startstate = 1
+acceptstate = 3`,
+  partial: `Name = "ab"
+mode = partial
+states = {s, a, b}
+symbols = {a, b}
+transitions =
+s: a.a
+a: b.b
+startstate = s
+acceptstate = b`,
+  mealy: `Name = "increment"
+states = {carry, done}
+symbols = {0, 1}
+transitions =
+carry: on '0' move 'done' emit '1', on '1' move 'carry' emit '0'
+done: on '0' move 'done' emit "a/b.c", on '1' move 'done' emit ''
+startstate = carry
+acceptstate = done`,
+  moore: `Name = "parity"
+states = 2
+symbols = {0, 1}
+transitions =
+1: 0.1, 1.2
+2: 0.2, 1.1
+startstate = 1
+acceptstate = 1
+outputs = {1: even, 2: 'odd one'}`,
+};
+
+const roundTrip = (fsm: FSMData, syntax: TransitionSyntax) => parseFSMFile(serializeFSM(fsm, { syntax }));
+
+// The indexing source records how a file was read, not the machine itself
+const machineOf = ({ indexingSource, ...machine }: FSMData) => machine;
+
+describe('FSM Serializer - round trip', () => {
+  for (const [label, content] of Object.entries(machines)) {
+    for (const syntax of SYNTAXES) {
+      it(`should round-trip the ${label} machine through ${syntax} syntax`, () => {
+        const fsm = parseFSMFile(content);
+
+        expect(machineOf(roundTrip(fsm, syntax))).toEqual(machineOf(fsm));
+      });
+    }
+  }
+
+  it('should round-trip symbols and outputs containing one kind of quote', () => {
+    const fsm = parseFSMFile(`Name = "quotes"
+states = 1
+symbols = {'say "hi"', "it's"}
+transitions =
+1: 'say "hi"'.1/"it's", "it's".1/'"'
+startstate = 1
+acceptstate = 1`);
+
+    expect(fsm.symbols).toEqual(['say "hi"', "it's"]);
+    for (const syntax of SYNTAXES) {
+      expect(machineOf(roundTrip(fsm, syntax))).toEqual(machineOf(fsm));
+    }
+  });
+
+  it('should round-trip names containing a quote', () => {
+    for (const name of ["it's", 'say "hi"']) {
+      const fsm = { ...parseFSMFile(machines.named), name };
+
+      for (const syntax of SYNTAXES) {
+        expect(roundTrip(fsm, syntax).name).toBe(name);
+      }
+    }
+  });
+
+  it('should refuse text containing both kinds of quote instead of writing an unreadable file', () => {
+    const fsm = parseFSMFile(machines.named);
+    const both = `"it's"`;
+    const withSymbol = { ...fsm, symbols: [both, 'b'], transitions: { 1: [[both, '1'], ['b', '2']], 2: [[both, '2'], ['b', '1']] } } as FSMData;
+    const withOutput = { ...fsm, stateOutputs: { 1: both } };
+
+    for (const syntax of SYNTAXES) {
+      expect(() => serializeFSM(withSymbol, { syntax })).toThrow(/contains both " and '/);
+    }
+    expect(() => serializeFSM(withOutput)).toThrow(/contains both " and '/);
+  });
+
+  it('should be stable once normalized', () => {
+    const fsm = parseFSMFile(machines.shifted);
+    const once = serializeFSM(fsm);
+
+    expect(serializeFSM(parseFSMFile(once))).toBe(once);
+  });
+});
+
+describe('FSM Serializer - output', () => {
+  it('should write the JSON-like syntax by default', () => {
+    const fsm = parseFSMFile(machines['zero-based']);
+
+    expect(serializeFSM(fsm)).toBe(`Name = "mod3"
+
+indexing = 0
+
+states = 3
+
+symbols = {0, 1}
+
+transitions = {
+  0: { "0": 0, "1": 1 },
+  1: { "0": 2, "1": 0 },
+  2: { "0": 1, "1": 2 }
+}
+
+startstate = 0
+
+acceptstate = {0, 2}
+`);
+  });
+
+  it('should write named states by name', () => {
+    const fsm = parseFSMFile(machines.named);
+    const text = serializeFSM(fsm, { syntax: 'dotted' });
+
+    expect(text).toContain('states = {even, odd}');
+    expect(text).toContain('even: a.even, b.odd');
+    expect(text).toContain('startstate = even');
+    expect(text).not.toContain('indexing');
+  });
+
+  it('should declare the indexing scheme of numeric machines', () => {
+    const fsm = parseFSMFile(machines.shifted);
+    const reparsed = parseFSMFile(serializeFSM(fsm));
+
+    expect(serializeFSM(fsm)).toContain('indexing = 0');
+    expect(reparsed.indexingSource).toBe('declared');
+  });
+
+  it('should write a partial DFA with an explicit dead state on request', () => {
+    const fsm = parseFSMFile(machines.partial);
+    const text = serializeFSM(fsm, { syntax: 'dotted', explicitSink: true });
+
+    expect(serializeFSM(fsm)).toContain('mode = partial');
+    expect(text).not.toContain('mode');
+    expect(text).toContain('states = {s, a, b, dead}');
+    expect(text).toContain('b: a.dead, b.dead');
+    expect(parseFSMFile(text).mode).toBe('dfa');
+  });
+});
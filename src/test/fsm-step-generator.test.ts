@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile } from '@/lib/fsm-parser';
+import { generateFSMSteps, reachableByPosition } from '@/lib/fsm-step-generator';
+import { generateCompetingTilesFromSteps, getCorrectTiles } from '@/lib/excel-generator';
+
+// A layered machine: after one symbol only 2 or 3 can be occupied, after two only 4, then only 5
+const layered = `Name = "layered"
+states = 5
+symbols = {a, b}
+transitions =
+1: a.2, b.3
+2: a.4, b.4
+3: a.4, b.4
+4: a.5, b.5
+5: a.5, b.5
+startstate = 1
+acceptstate = 5`;
+
+describe('FSM Step Generator - pruning', () => {
+  it('should compute the states occupiable at each position', () => {
+    const sets = reachableByPosition(parseFSMFile(layered), 4);
+
+    expect(sets.map(set => [...set].sort())).toEqual([[1], [2, 3], [4], [5]]);
+  });
+
+  it('should emit every state without pruning', () => {
+    const result = generateFSMSteps(parseFSMFile(layered), 'abab');
+
+    expect(result.pruned).toBe(false);
+    expect(result.steps.map(step => step.states.length)).toEqual([1, 5, 5, 5]);
+    expect(result.steps.map(step => step.unprunedCount)).toEqual([1, 5, 5, 5]);
+  });
+
+  it('should keep only reachable states and report the unpruned count', () => {
+    const result = generateFSMSteps(parseFSMFile(layered), 'abab', { prune: true });
+
+    expect(result.pruned).toBe(true);
+    expect(result.steps.map(step => step.states.map(s => s.currentState))).toEqual([[1], [2, 3], [4], [5]]);
+    expect(result.steps.map(step => step.unprunedCount)).toEqual([1, 5, 5, 5]);
+  });
+
+  it('should prune competing tiles for the Excel sheet', () => {
+    const fsm = parseFSMFile(layered);
+
+    expect(generateCompetingTilesFromSteps(fsm, 'abab', { prune: true })).toEqual([['A2'], ['2B4', '3B4'], ['4C5'], ['5D']]);
+    expect(generateCompetingTilesFromSteps(fsm, 'abab').flat()).toHaveLength(1 + 5 + 5 + 5);
+  });
+});
+
+// Divisible by 3, written in each indexing scheme
+const mod3OneBased = `Name = "mod3"
+states = 3
+symbols = {0, 1}
+transitions =
+1: 0.1, 1.2
+2: 0.3, 1.1
+3: 0.2, 1.3
+startstate = 1
+acceptstate = 1`;
+
+const mod3ZeroBased = `Name = "mod3"
+indexing = 0
+states = 3
+symbols = {0, 1}
+transitions =
+0: 0.0, 1.1
+1: 0.2, 1.0
+2: 0.1, 1.2
+startstate = 0
+acceptstate = 0`;
+
+// 1-based row numbers with 0-based targets, normalized to 0-based by the parser
+const mod3Shifted = `Name = "mod3"
+states = 3
+symbols = {0, 1}
+transitions =
+1: 0.0, 1.1
+2: 0.2, 1.0
+3: 0.1, 1.2
+startstate = 1
+acceptstate = 1`;
+
+describe('FSM Step Generator - indexing schemes', () => {
+  it('should give every state of a 1-based machine a competing tile', () => {
+    const steps = generateFSMSteps(parseFSMFile(mod3OneBased), '101').steps;
+
+    expect(steps[1].states.map(s => s.currentState)).toEqual([1, 2, 3]);
+    expect(steps[1].states.map(s => s.nextState)).toEqual([1, 3, 2]);
+  });
+
+  for (const [label, file] of [['0-based', mod3ZeroBased], ['shifted', mod3Shifted]]) {
+    it(`should give every state of a ${label} machine a competing tile`, () => {
+      const fsm = parseFSMFile(file);
+      const steps = generateFSMSteps(fsm, '101').steps;
+
+      expect(fsm.zeroIndexed).toBe(true);
+      expect(steps[0].states).toEqual([{ currentState: 0, nextState: 1, upcomingInput: '0' }]);
+      expect(steps[1].states.map(s => s.currentState)).toEqual([0, 1, 2]);
+      expect(steps[1].states.map(s => s.nextState)).toEqual([0, 2, 1]);
+    });
+
+    it(`should name ${label} tiles in the machine's own numbering`, () => {
+      const fsm = parseFSMFile(file);
+
+      expect(generateCompetingTilesFromSteps(fsm, '101')).toEqual([['A1'], ['0B0', '1B2', '2B1'], ['0C', '1C', '2C']]);
+      expect(getCorrectTiles(fsm, '101')).toEqual(['A1', '1B2', '2C']);
+    });
+  }
+
+  it('should shift tile names by one between the schemes', () => {
+    const oneBased = parseFSMFile(mod3OneBased);
+
+    expect(generateCompetingTilesFromSteps(oneBased, '101')).toEqual([['A2'], ['1B1', '2B3', '3B2'], ['1C', '2C', '3C']]);
+    expect(getCorrectTiles(oneBased, '101')).toEqual(['A2', '2B3', '3C']);
+  });
+
+  it('should keep every correct tile among the competing tiles', () => {
+    for (const file of [mod3OneBased, mod3ZeroBased, mod3Shifted]) {
+      const fsm = parseFSMFile(file);
+      for (const input of ['1', '10', '0110', '1111011']) {
+        const competing = generateCompetingTilesFromSteps(fsm, input);
+        getCorrectTiles(fsm, input).forEach((tile, position) => {
+          expect(competing[position]).toContain(tile);
+        });
+      }
+    }
+  });
+});
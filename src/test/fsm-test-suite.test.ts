@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseFSMFile } from '@/lib/fsm-parser';
+import { minimizeDFA } from '@/lib/fsm-minimizer';
+import { nfaToDFA } from '@/lib/fsm-nfa';
+import { dropExpectedStates, parseFSMWithTests, remapTestSuite, runTestSuite } from '@/lib/fsm-test-suite';
+
+const sample = readFileSync(resolve(__dirname, '../../public/sample-fsm.txt'), 'utf-8');
+
+// Even number of 1s, named, with its tests inline
+const evenOnes = `Name = "even1s"
+states = {even, odd}
+symbols = {0, 1}
+tests {
+  11, ACCEPT, even
+  # the empty input has no 1s
+  ε, ACCEPT
+  1, REJECT, odd
+}
+transitions =
+even: 0.even, 1.odd
+odd: 0.odd, 1.even
+startstate = even
+acceptstate = even`;
+
+describe('FSM Test Suite - parsing', () => {
+  it('should take the tests block out before the machine is parsed', () => {
+    const { fsm, diagnostics, tests } = parseFSMWithTests(evenOnes);
+
+    expect(diagnostics.filter(d => d.severity === 'error')).toEqual([]);
+    expect(fsm.states).toBe(2);
+    expect(tests.source).toBe('tests block');
+    expect(runTestSuite(fsm, tests).summary).toEqual({ total: 3, passed: 3, failed: 0 });
+  });
+
+  it('should keep line numbers in the file for tests and diagnostics', () => {
+    const { fsm, tests } = parseFSMWithTests(evenOnes.replace('1, REJECT, odd', '1, REJECT, neither'));
+    expect(runTestSuite(fsm, tests).errors).toEqual(["Line 8: Unknown state 'neither'"]);
+
+    const { diagnostics } = parseFSMWithTests(evenOnes.replace('odd: 0.odd, 1.even', 'odd: 0.odd, 1.even, 2.even'));
+    expect(diagnostics.length).toBeGreaterThan(0);
+    expect(diagnostics.every(d => d.line === 12)).toBe(true);
+  });
+
+  it('should report an unclosed tests block', () => {
+    const { fsm, diagnostics } = parseFSMWithTests(evenOnes.replace(/^\}$/m, ''));
+
+    expect(fsm).toBeNull();
+    expect(diagnostics).toMatchObject([{ severity: 'error', code: 'unclosed-tests', line: 4 }]);
+  });
+
+  it('should parse files without a tests block as before', () => {
+    const { fsm, tests } = parseFSMWithTests(sample);
+
+    expect(tests).toBeNull();
+    expect(fsm).toEqual(parseFSMFile(sample));
+  });
+});
+
+describe('FSM Test Suite - running', () => {
+  const suite = { source: 'divby4.fsmtest', text: '100, ACCEPT, 2\n0, ACCEPT\nε, REJECT\n110, REJECT' };
+
+  it('should pass against the sample machine', () => {
+    const fsm = parseFSMFile(sample);
+    expect(runTestSuite(fsm, suite)).toMatchObject({ summary: { total: 4, passed: 4, failed: 0 }, errors: [] });
+  });
+
+  it('should catch a bad edit to the machine', () => {
+    // ...10 is 2 mod 4, so state 4 on 0 must not reach the accepting state
+    const fsm = parseFSMFile(sample.replace('4: { "0": 1', '4: { "0": 2'));
+    const run = runTestSuite(fsm, suite);
+
+    expect(run.summary.failed).toBe(1);
+    expect(run.results.find(r => !r.passed)).toMatchObject({ input: '110', actual: 'ACCEPT' });
+  });
+});
+
+describe('FSM Test Suite - mistyped inputs', () => {
+  it('should fail a row whose input is outside the alphabet, whatever it expects', () => {
+    const { fsm, tests } = parseFSMWithTests(evenOnes.replace('1, REJECT, odd', '1x, REJECT'));
+    const run = runTestSuite(fsm, tests);
+
+    expect(run.summary).toEqual({ total: 3, passed: 2, failed: 1 });
+    expect(run.results.find(r => !r.passed)).toMatchObject({ input: '1x', actual: 'ERROR', line: 8 });
+  });
+});
+
+describe('FSM Test Suite - derived machines', () => {
+  it('should renumber expected final states for the minimized machine', () => {
+    // States 1 and 4 both mean "ends in 1", so minimization merges them
+    const fsm = parseFSMFile(sample);
+    const suite = { source: 'divby4.fsmtest', text: '11, REJECT, 4\n100, ACCEPT, q2\n# comment\nε, REJECT' };
+    const { dfa, mapping } = minimizeDFA(fsm);
+    const remapped = remapTestSuite(suite, fsm, dfa, mapping);
+
+    expect(dfa.states).toBe(3);
+    expect(runTestSuite(dfa, suite).errors).toEqual(["Line 1: Unknown state '4'"]);
+    expect(remapped.text.split('\n').slice(2)).toEqual(['# comment', 'ε, REJECT']);
+    expect(remapped.note).toMatch(/renumbered/);
+    expect(runTestSuite(dfa, remapped)).toMatchObject({ summary: { total: 3, passed: 3, failed: 0 }, errors: [] });
+  });
+
+  it('should drop expected final states after subset construction', () => {
+    const nfa = parseFSMFile(`Name = "ends01"
+mode = nfa
+states = 3
+symbols = {0, 1}
+transitions =
+1: 0.1, 1.1, 0.2
+2: 1.3
+startstate = 1
+acceptstate = 3`);
+    const suite = { source: 'tests block', text: '\n001, ACCEPT, 3\n10, REJECT' };
+    const { dfa } = nfaToDFA(nfa);
+    const dropped = dropExpectedStates(suite, nfa, dfa);
+
+    expect(dropped.text).toBe('\n001,ACCEPT\n10, REJECT');
+    expect(dropped.note).toMatch(/dropped/);
+    expect(runTestSuite(dfa, dropped).summary).toEqual({ total: 2, passed: 2, failed: 0 });
+    expect(dropExpectedStates({ ...suite, text: '10, REJECT' }, nfa, dfa).note).toBeUndefined();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile, runFSM } from '@/lib/fsm-parser';
+import { tokenizeInput } from '@/lib/fsm-tokenizer';
+import { generateFSMSteps } from '@/lib/fsm-step-generator';
+import { evaluateFSM, getCorrectTiles } from '@/lib/excel-generator';
+
+// Two-bit symbols, accepting inputs that end in 11
+const pairs = `Name = "pairs"
+states = 2
+symbols = {00, 01, 10, 11}
+transitions =
+1: 00.1, 01.1, 10.1, 11.2
+2: 00.1, 01.1, 10.1, 11.2
+startstate = 1
+acceptstate = 2`;
+
+describe('Input Tokenizer', () => {
+  it('should take the longest matching symbol', () => {
+    expect(tokenizeInput('1011', ['1', '10', '11']).symbols).toEqual(['10', '11']);
+    expect(tokenizeInput('111', ['1', '11']).symbols).toEqual(['11', '1']);
+    expect(tokenizeInput('ab', ['a', 'b']).tokens).toEqual([
+      { symbol: 'a', position: 0 },
+      { symbol: 'b', position: 1 },
+    ]);
+  });
+
+  it('should skip whitespace between symbols', () => {
+    expect(tokenizeInput(' 10 11  01 ', ['01', '10', '11']).symbols).toEqual(['10', '11', '01']);
+  });
+
+  it('should split on an explicit separator', () => {
+    const result = tokenizeInput('go, stop ,go', ['go', 'stop'], { separator: ',' });
+
+    expect(result.symbols).toEqual(['go', 'stop', 'go']);
+    expect(result.tokens.map(token => token.position)).toEqual([0, 4, 10]);
+  });
+
+  it('should report the first invalid token with its position', () => {
+    expect(tokenizeInput('0x1', ['0', '1'])).toEqual({
+      tokens: [{ symbol: '0', position: 0 }],
+      symbols: ['0'],
+      error: "Position 2: Symbol 'x' is not in the alphabet {0, 1}",
+      errorPosition: 1,
+    });
+    expect(tokenizeInput('1011 2', ['10', '11']).error).toBe("Position 6: Symbol '2' is not in the alphabet {10, 11}");
+    expect(tokenizeInput('go,wait', ['go', 'stop'], { separator: ',' }).error).toBe(
+      "Position 4: Symbol 'wait' is not in the alphabet {go, stop}"
+    );
+  });
+
+  it('should make runFSM, generateFSMSteps and the Excel inputs agree on multi-character symbols', () => {
+    const fsm = parseFSMFile(pairs);
+
+    const run = runFSM(fsm, '0111');
+    expect(run.accepted).toBe(true);
+    expect(run.path.map(step => step.symbol)).toEqual([undefined, '01', '11']);
+
+    const steps = generateFSMSteps(fsm, '0111').steps;
+    expect(steps.map(step => step.symbol)).toEqual(['01', '11']);
+
+    expect(evaluateFSM(fsm, '01 11')).toMatchObject({ result: 'ACCEPT', finalState: 2 });
+    expect(getCorrectTiles(fsm, '0111')).toEqual(['A1', '1B']);
+  });
+
+  it('should surface invalid tokens from every consumer', () => {
+    const fsm = parseFSMFile(pairs);
+    const error = "Position 3: Symbol '2' is not in the alphabet {00, 01, 10, 11}";
+
+    expect(runFSM(fsm, '012').error).toBe(error);
+    expect(generateFSMSteps(fsm, '012')).toEqual({ steps: [], pruned: false, error });
+    expect(evaluateFSM(fsm, '012').error).toBe(error);
+  });
+});
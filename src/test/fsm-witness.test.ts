@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile, runFSM } from '@/lib/fsm-parser';
+import { computeWitnesses, shortestInput } from '@/lib/fsm-witness';
+import { joinSymbols } from '@/lib/fsm-tokenizer';
+
+// Divisible by 3, 0-based: state = remainder
+const mod3 = `Name = "mod3"
+indexing = 0
+states = 3
+symbols = {0, 1}
+transitions =
+0: 0.0, 1.1
+1: 0.2, 1.0
+2: 0.1, 1.2
+startstate = 0
+acceptstate = 0`;
+
+describe('FSM Witnesses', () => {
+  it('should find the shortest reach, accept and reject inputs per state', () => {
+    expect(computeWitnesses(parseFSMFile(mod3))).toEqual([
+      { state: 0, reach: [], toAccept: [], toReject: ['1'] },
+      { state: 1, reach: ['1'], toAccept: ['1'], toReject: [] },
+      { state: 2, reach: ['1', '0'], toAccept: ['0', '1'], toReject: [] },
+    ]);
+  });
+
+  it('should produce inputs that actually end where they claim', () => {
+    const fsm = parseFSMFile(mod3);
+    for (const witness of computeWitnesses(fsm)) {
+      expect(runFSM(fsm, witness.reach.join('')).endState).toBe(witness.state);
+      const prefix = witness.reach.join('');
+      expect(runFSM(fsm, prefix + witness.toAccept.join('')).accepted).toBe(true);
+      expect(runFSM(fsm, prefix + witness.toReject.join('')).accepted).toBe(false);
+    }
+  });
+
+  it('should find a non-empty input ending in the start state when asked', () => {
+    const fsm = parseFSMFile(mod3);
+
+    expect(shortestInput(fsm, 0, s => s === 0)).toEqual([]);
+    expect(shortestInput(fsm, 0, s => s === 0, true)).toEqual(['0']);
+  });
+
+  it('should reject through the implicit dead state and report unreachable states', () => {
+    const fsm = parseFSMFile(`Name = "ab"
+mode = partial
+states = {s, a, done, lost}
+symbols = {a, b}
+transitions =
+s: a.a
+a: b.done
+done: a.done, b.done
+startstate = s
+acceptstate = done`);
+
+    expect(computeWitnesses(fsm)).toEqual([
+      { state: 1, reach: [], toAccept: ['a', 'b'], toReject: [] },
+      { state: 2, reach: ['a'], toAccept: ['b'], toReject: [] },
+      { state: 3, reach: ['a', 'b'], toAccept: [], toReject: null },
+      { state: 4, reach: null, toAccept: null, toReject: [] },
+    ]);
+  });
+
+  it('should refuse NFAs', () => {
+    const nfa = parseFSMFile(mod3.replace('indexing = 0', 'mode = nfa\nindexing = 0'));
+
+    expect(() => computeWitnesses(nfa)).toThrow('need a deterministic machine');
+  });
+
+  it('should space multi-character symbols so they read back the same', () => {
+    expect(joinSymbols(['1', '0'], ['0', '1', '10'])).toBe('1 0');
+    expect(joinSymbols(['1', '0'], ['0', '1'])).toBe('10');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import { evaluateOracle, oracleExpressionError, OracleRequest, OracleResponse } from '@/lib/oracle-sandbox';
+
+// jsdom has no workers; this one records what it is sent and answers when the test says so
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent<OracleResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: OracleRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(request: OracleRequest) {
+    this.requests.push(request);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  answer(response: OracleResponse) {
+    this.onmessage?.({ data: response } as MessageEvent<OracleResponse>);
+  }
+}
+
+const cases = [
+  { input: '', symbols: [] },
+  { input: '100', symbols: ['1', '0', '0'] },
+];
+
+describe('Oracle Sandbox', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should send the expression and cases and resolve with the verdicts', async () => {
+    const pending = evaluateOracle('parseInt(x || "1", 2) % 4 === 0', cases);
+    const [worker] = FakeWorker.instances;
+
+    expect(worker.requests).toEqual([{ expression: 'parseInt(x || "1", 2) % 4 === 0', cases }]);
+    worker.answer({ verdicts: [false, true] });
+
+    await expect(pending).resolves.toEqual([false, true]);
+    expect(worker.terminated).toBe(true);
+  });
+
+  it('should reject with the error the worker reports', async () => {
+    const pending = evaluateOracle('x.length >', cases);
+    FakeWorker.instances[0].answer({ error: 'The oracle does not compile: Unexpected token' });
+
+    await expect(pending).rejects.toThrow('The oracle does not compile');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('should terminate a worker that does not answer in time', async () => {
+    vi.useFakeTimers();
+    const pending = evaluateOracle('(() => { while (true); })()', cases, 500);
+    const assertion = expect(pending).rejects.toThrow('did not finish within 0.5 s');
+
+    vi.advanceTimersByTime(500);
+    await assertion;
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('should refuse module loading without starting a worker', async () => {
+    expect(oracleExpressionError('x.endsWith("00")')).toBeNull();
+    expect(oracleExpressionError('import("https://example.com/a.js")')).toMatch(/cannot load modules/);
+    expect(oracleExpressionError('importScripts("a.js") || true')).toMatch(/cannot load modules/);
+
+    await expect(evaluateOracle('import ("a.js")', cases)).rejects.toThrow(/cannot load modules/);
+    expect(FakeWorker.instances).toEqual([]);
+  });
+});
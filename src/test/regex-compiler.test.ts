@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile, runFSM } from '@/lib/fsm-parser';
+import { serializeFSM } from '@/lib/fsm-serializer';
+import { generateFSMSteps } from '@/lib/fsm-step-generator';
+import { evaluateFSM } from '@/lib/excel-generator';
+import { compileRegex, parseRegex, RegexSyntaxError } from '@/lib/regex-compiler';
+
+const allStrings = (symbols: string[], maxLength: number): string[] => {
+  const result = [''];
+  for (let i = 0; i < result.length; i++) {
+    if (result[i].length < maxLength) {
+      result.push(...symbols.map(s => result[i] + s));
+    }
+  }
+  return result;
+};
+
+describe('Regex Compiler - parsing', () => {
+  it('should build a syntax tree with the usual precedence', () => {
+    expect(parseRegex('ab|c*')).toEqual({
+      type: 'alt',
+      options: [
+        { type: 'concat', parts: [{ type: 'symbol', symbol: 'a' }, { type: 'symbol', symbol: 'b' }] },
+        { type: 'star', child: { type: 'symbol', symbol: 'c' } },
+      ],
+    });
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(() => parseRegex('(01')).toThrow(RegexSyntaxError);
+    expect(() => parseRegex('(01')).toThrow("Position 1: Unclosed '('");
+    expect(() => parseRegex('0|*1')).toThrow("Position 3: '*' must follow something to repeat");
+    expect(() => parseRegex('01)')).toThrow("Position 3: Unexpected ')'");
+    expect(() => parseRegex('[]')).toThrow('Empty character class');
+  });
+});
+
+describe('Regex Compiler - compiled DFA', () => {
+  const cases: [string, string[]][] = [
+    ['(0|1)*01', ['0', '1']],
+    ['1(0|1)*', ['0', '1']],
+    ['(ab)+|c?', ['a', 'b', 'c']],
+    ['[ab]*b.', ['a', 'b']],
+    ['0*', ['0', '1']],
+    ['ε|(00)*1', ['0', '1']],
+  ];
+
+  for (const [regex, alphabet] of cases) {
+    it(`should accept exactly the strings matched by ${regex}`, () => {
+      const fsm = compileRegex(regex, { alphabet });
+      const reference = new RegExp(`^(?:${regex.replace('ε', '')})$`);
+
+      for (const input of allStrings(alphabet, 7)) {
+        expect(runFSM(fsm, input).accepted).toBe(reference.test(input));
+      }
+    });
+  }
+
+  it('should produce the minimal complete DFA', () => {
+    const fsm = compileRegex('(0|1)*01');
+
+    expect(fsm.states).toBe(3);
+    expect(fsm.symbols).toEqual(['0', '1']);
+    expect(fsm.mode).toBe('dfa');
+    expect(fsm.zeroIndexed).toBe(false);
+    expect(fsm.startstate).toBe(1);
+    expect(fsm.metadata.description).toBe('Compiled from regex (0|1)*01');
+  });
+
+  it('should keep a dead state when one is needed', () => {
+    expect(compileRegex('01').states).toBe(4);
+  });
+
+  it('should default the alphabet to the symbols used and check a given alphabet', () => {
+    expect(compileRegex('a(b|c)').symbols).toEqual(['a', 'b', 'c']);
+    expect(() => compileRegex('a2', { alphabet: ['a', 'b'] })).toThrow("Position 2: Symbol '2' is not in the alphabet {a, b}");
+    expect(() => compileRegex('.*')).toThrow('give an alphabet');
+    expect(() => compileRegex('a', { alphabet: ['a', 'bc'] })).toThrow('single characters');
+  });
+
+  it('should work unchanged with the serializer, step generator and Excel evaluation', () => {
+    const fsm = compileRegex('(0|1)*01', { name: 'ends01' });
+
+    expect(parseFSMFile(serializeFSM(fsm)).transitions).toEqual(fsm.transitions);
+    expect(generateFSMSteps(fsm, '101').steps).toHaveLength(3);
+    expect(evaluateFSM(fsm, '101').result).toBe('ACCEPT');
+    expect(evaluateFSM(fsm, '110').result).toBe('REJECT');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parseFSMFile } from '@/lib/fsm-parser';
+import { positionLabel, tileName } from '@/lib/tile-naming';
+import { generateCompetingTilesFromSteps, getCorrectTiles } from '@/lib/excel-generator';
+
+// Counts 1s modulo 12, so state numbers reach two digits
+const mod12 = `Name = "mod12"
+states = 12
+symbols = {0, 1}
+transitions =
+${Array.from({ length: 12 }, (_, i) => `${i + 1}: 0.${i + 1}, 1.${((i + 1) % 12) + 1}`).join('\n')}
+startstate = 1
+acceptstate = 1`;
+
+describe('Tile Naming', () => {
+  it('should keep A-H for the first eight positions and continue with AA', () => {
+    expect([0, 1, 7, 25, 26, 27, 51, 52, 701, 702].map(p => positionLabel(p))).toEqual([
+      'A', 'B', 'H', 'Z', 'AA', 'AB', 'AZ', 'BA', 'ZZ', 'AAA',
+    ]);
+  });
+
+  it('should label numeric positions from P0', () => {
+    expect([0, 9, 10].map(p => positionLabel(p, 'numeric'))).toEqual(['P0', 'P9', 'P10']);
+  });
+
+  it('should name tiles with optional separators', () => {
+    expect(tileName(1, 11, 2)).toBe('11B2');
+    expect(tileName(1, 1, 12)).toBe('1B12');
+    expect(tileName(0, null, 2)).toBe('A2');
+    expect(tileName(3, 4, null)).toBe('4D');
+    expect(tileName(1, 11, 2, { separator: '-' })).toBe('11-B-2');
+    expect(tileName(10, 1, 2, { scheme: 'numeric' })).toBe('1-P10-2');
+    expect(tileName(10, 1, 2, { scheme: 'numeric', separator: '_' })).toBe('1_P10_2');
+  });
+
+  it('should never produce undefined labels for long inputs', () => {
+    const fsm = parseFSMFile(mod12);
+    const input = '1101101111011';
+    const tiles = generateCompetingTilesFromSteps(fsm, input).flat();
+
+    expect(tiles.some(tile => tile.includes('undefined'))).toBe(false);
+    expect(getCorrectTiles(fsm, input)).toHaveLength(input.length);
+    // Nine 1s before the last symbol leave the machine in state 10 at position M
+    expect(getCorrectTiles(fsm, input)[12]).toBe('10M');
+  });
+
+  for (const scheme of ['letters', 'numeric'] as const) {
+    it(`should give every ${scheme} tile of a long run a distinct name`, () => {
+      const fsm = parseFSMFile(mod12);
+      const input = '1'.repeat(30);
+      const tiles = generateCompetingTilesFromSteps(fsm, input, { scheme }).flat();
+
+      expect(new Set(tiles).size).toBe(tiles.length);
+    });
+  }
+});